@@ -1,7 +1,11 @@
 import { TanqoryApiClient } from '@/api-client';
-import { TanqoryConfig, TokenData } from '@/types';
+import { CacheEntry, CacheStore, TanqoryConfig, TokenData, TokenStore } from '@/types';
 import axios from 'axios';
 import { TanqoryError } from '@/errors';
+import { RateLimiter } from '@/rate-limiter';
+import { Readable } from 'stream';
+import { MemoryCacheStore } from '@/cache';
+import { MemoryTokenStore } from '@/token-manager';
 
 // Mock axios
 jest.mock('axios');
@@ -17,6 +21,15 @@ describe('TanqoryApiClient', () => {
 
   let client: TanqoryApiClient;
 
+  // Sets a token received an hour ago, which is due for a refresh inside the expiry buffer
+  const setAgedToken = (target: TanqoryApiClient, tokenData: TokenData) => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now - 3600000);
+    const saved = target.setToken(tokenData);
+    clock.mockRestore();
+    return saved;
+  };
+
   beforeEach(() => {
     // Reset mocks
     jest.clearAllMocks();
@@ -45,6 +58,21 @@ describe('TanqoryApiClient', () => {
       expect(defaultClient).toBeDefined();
     });
 
+    it('should bound the response cache', () => {
+      const boundedClient = new TanqoryApiClient({
+        ...mockConfig,
+        cacheMaxEntries: 10,
+        cacheMaxBytes: 1024,
+      });
+
+      const cacheOf = (target: TanqoryApiClient) =>
+        (target['cacheStore'] as MemoryCacheStore)['cache'];
+
+      expect(cacheOf(client)['maxEntries']).toBe(1000);
+      expect(cacheOf(boundedClient)['maxEntries']).toBe(10);
+      expect(cacheOf(boundedClient)['maxBytes']).toBe(1024);
+    });
+
     it('should merge provided config with defaults', () => {
       expect(client).toBeDefined();
       expect(mockedAxios.create).toHaveBeenCalledWith({
@@ -73,6 +101,16 @@ describe('TanqoryApiClient', () => {
     it('should clear token data', () => {
       expect(() => client.clearToken()).not.toThrow();
     });
+
+    it('should expose the claims of a JWT access token', async () => {
+      const payload = Buffer.from(JSON.stringify({ sub: 'customer-1', aud: 'store-1' })).toString(
+        'base64url'
+      );
+
+      await client.bindCustomerToken({ accessToken: `header.${payload}.signature` });
+
+      expect(client.getTokenClaims()).toEqual({ sub: 'customer-1', aud: 'store-1' });
+    });
   });
 
   describe('Cache Management', () => {
@@ -163,6 +201,2355 @@ describe('TanqoryApiClient', () => {
     });
   });
 
+  describe('Request Deduplication', () => {
+    const mockResponse = {
+      data: { products: [] },
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+    };
+    let execute: jest.Mock;
+
+    beforeEach(() => {
+      execute = jest.fn().mockResolvedValue(mockResponse);
+      client['executeWithRetry'] = execute;
+    });
+
+    it('should share one round trip between concurrent identical GET requests', async () => {
+      const responses = await Promise.all([
+        client.get('/products', { params: { page: 1 } }),
+        client.get('/products', { params: { page: 1 } }),
+        client.get('/products', { params: { page: 1 } }),
+      ]);
+
+      expect(execute).toHaveBeenCalledTimes(1);
+      responses.forEach((response) => expect(response.data).toEqual({ products: [] }));
+    });
+
+    it('should not share requests with different params', async () => {
+      await Promise.all([
+        client.get('/products', { params: { page: 1 } }),
+        client.get('/products', { params: { page: 2 } }),
+      ]);
+
+      expect(execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not share requests made with different credentials', async () => {
+      const expiresAt = Date.now() / 1000 + 3600;
+
+      client.setToken({ accessToken: 'customer-a', expiresAt });
+      const first = client.get('/me/orders');
+      client.setToken({ accessToken: 'customer-b', expiresAt });
+      const second = client.get('/me/orders');
+      await Promise.all([first, second]);
+
+      expect(execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not share mutations', async () => {
+      await Promise.all([client.post('/orders', { id: 1 }), client.post('/orders', { id: 1 })]);
+
+      expect(execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should send a new request once the shared one has settled', async () => {
+      await client.get('/products');
+      await client.get('/products');
+
+      expect(execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject every caller when the shared request fails', async () => {
+      execute.mockRejectedValue(new TanqoryError('Bad Gateway', 502, 'BAD_GATEWAY'));
+
+      const results = await Promise.allSettled([client.get('/products'), client.get('/products')]);
+
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+    });
+
+    it('should be disabled through configuration', async () => {
+      const plainClient = new TanqoryApiClient({
+        ...mockConfig,
+        enableRequestDeduplication: false,
+      });
+      plainClient['executeWithRetry'] = execute;
+
+      await Promise.all([plainClient.get('/products'), plainClient.get('/products')]);
+
+      expect(execute).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Token Refresh', () => {
+    const expiresAt = () => Date.now() / 1000 + 3600;
+    let refreshClient: TanqoryApiClient;
+    let onResponseError: (error: unknown) => Promise<unknown>;
+    let transport: jest.Mock;
+
+    const unauthorized = (authorization: string) => ({
+      config: { url: '/orders', method: 'get', headers: { Authorization: authorization } },
+      response: { status: 401, statusText: 'Unauthorized', data: {} },
+    });
+
+    beforeEach(() => {
+      refreshClient = new TanqoryApiClient({ ...mockConfig, enableTokenRefresh: true });
+      const { calls } = (refreshClient['axiosInstance'].interceptors.response.use as jest.Mock)
+        .mock;
+      onResponseError = calls[calls.length - 1][1];
+
+      transport = jest
+        .fn()
+        .mockImplementation((config) =>
+          Promise.resolve({ data: config.headers.Authorization, status: 200 })
+        );
+      refreshClient['axiosInstance'] =
+        transport as unknown as (typeof refreshClient)['axiosInstance'];
+      refreshClient.setToken({
+        accessToken: 'old-token',
+        refreshToken: 'refresh-token',
+        expiresAt: expiresAt(),
+      });
+    });
+
+    it('should refresh once for concurrent 401 responses and replay every request', async () => {
+      mockedAxios.post.mockResolvedValue({
+        data: { access_token: 'new-token', expires_at: expiresAt() },
+      });
+
+      const results = await Promise.all([
+        onResponseError(unauthorized('Bearer old-token')),
+        onResponseError(unauthorized('Bearer old-token')),
+        onResponseError(unauthorized('Bearer old-token')),
+      ]);
+
+      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(mockedAxios.post).toHaveBeenCalledWith('https://api.test.com/auth/refresh', {
+        refresh_token: 'refresh-token',
+      });
+      expect(transport).toHaveBeenCalledTimes(3);
+      results.forEach((result) =>
+        expect(result).toMatchObject({ data: 'Bearer new-token', status: 200 })
+      );
+    });
+
+    it('should replay without refreshing when the token was already rotated', async () => {
+      refreshClient.setToken({ accessToken: 'new-token', expiresAt: expiresAt() });
+
+      await expect(onResponseError(unauthorized('Bearer old-token'))).resolves.toMatchObject({
+        data: 'Bearer new-token',
+      });
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+    });
+
+    it('should fail every waiting request when the refresh fails', async () => {
+      mockedAxios.post.mockRejectedValue(new Error('refresh token revoked'));
+
+      const results = await Promise.allSettled([
+        onResponseError(unauthorized('Bearer old-token')),
+        onResponseError(unauthorized('Bearer old-token')),
+      ]);
+
+      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(transport).not.toHaveBeenCalled();
+      results.forEach((result) => {
+        expect(result.status).toBe('rejected');
+        expect((result as PromiseRejectedResult).reason).toMatchObject({ status: 401 });
+      });
+      expect(refreshClient.isTokenValid()).toBe(false);
+    });
+
+    it('should fail the refresh when the new token fails the claim checks', async () => {
+      const validatingClient = new TanqoryApiClient({
+        ...mockConfig,
+        enableTokenRefresh: true,
+        tokenValidation: { issuer: 'https://auth.tanqory.com' },
+      });
+      const { calls } = (validatingClient['axiosInstance'].interceptors.response.use as jest.Mock)
+        .mock;
+      const payload = Buffer.from(JSON.stringify({ iss: 'https://auth.tanqory.com' })).toString(
+        'base64url'
+      );
+      const accessToken = `header.${payload}.signature`;
+      await validatingClient.setToken({ accessToken, refreshToken: 'refresh-token' });
+      mockedAxios.post.mockResolvedValue({ data: { access_token: 'opaque-token' } });
+
+      await expect(
+        calls[calls.length - 1][1](unauthorized(`Bearer ${accessToken}`))
+      ).rejects.toMatchObject({ status: 401 });
+      expect(validatingClient.getTokenClaims()).toBeNull();
+      expect(validatingClient.isTokenValid()).toBe(false);
+    });
+
+    it('should start a new refresh after the previous one settled', async () => {
+      mockedAxios.post.mockResolvedValue({
+        data: { access_token: 'new-token', expires_at: expiresAt() },
+      });
+
+      await onResponseError(unauthorized('Bearer old-token'));
+      await onResponseError(unauthorized('Bearer new-token'));
+
+      expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use a token another process refreshed in the shared store', async () => {
+      const tokenStore = new MemoryTokenStore();
+      const sharingClient = new TanqoryApiClient({
+        ...mockConfig,
+        enableTokenRefresh: true,
+        tokenStore,
+      });
+      const { calls } = (sharingClient['axiosInstance'].interceptors.response.use as jest.Mock)
+        .mock;
+      sharingClient['axiosInstance'] =
+        transport as unknown as (typeof sharingClient)['axiosInstance'];
+      await sharingClient.setToken({
+        accessToken: 'old-token',
+        refreshToken: 'refresh-token',
+        expiresAt: expiresAt(),
+      });
+
+      await tokenStore.save({ accessToken: 'other-process-token', expiresAt: expiresAt() });
+
+      await expect(
+        calls[calls.length - 1][1](unauthorized('Bearer old-token'))
+      ).resolves.toMatchObject({ data: 'Bearer other-process-token' });
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+    });
+
+    it('should refresh before sending when the token is about to expire', async () => {
+      setAgedToken(refreshClient, {
+        accessToken: 'old-token',
+        refreshToken: 'refresh-token',
+        expiresAt: Date.now() / 1000 + 60,
+      });
+      mockedAxios.post.mockResolvedValue({
+        data: { access_token: 'new-token', expires_at: expiresAt() },
+      });
+
+      await expect(refreshClient.get('/orders')).resolves.toMatchObject({
+        data: 'Bearer new-token',
+      });
+      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(transport).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send a token that has not expired yet when refreshing it fails', async () => {
+      setAgedToken(refreshClient, {
+        accessToken: 'old-token',
+        refreshToken: 'refresh-token',
+        expiresAt: Date.now() / 1000 + 240,
+      });
+      mockedAxios.post.mockRejectedValue(new Error('socket hang up'));
+
+      await expect(refreshClient.get('/orders')).resolves.toMatchObject({
+        data: 'Bearer old-token',
+      });
+      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(refreshClient['tokenManager'].getToken()?.accessToken).toBe('old-token');
+    });
+
+    it('should refresh a 300s token once and not again right after it was refreshed', async () => {
+      setAgedToken(refreshClient, {
+        accessToken: 'old-token',
+        refreshToken: 'refresh-token',
+        expiresAt: Date.now() / 1000 + 60,
+      });
+      mockedAxios.post.mockResolvedValue({
+        data: { access_token: 'new-token', expires_at: Date.now() / 1000 + 300 },
+      });
+
+      for (const url of ['/orders', '/products', '/customers']) {
+        await expect(refreshClient.get(url)).resolves.toMatchObject({ data: 'Bearer new-token' });
+      }
+      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not refresh a 300s token until three quarters of its lifetime have passed', async () => {
+      const now = Date.now();
+      refreshClient.setToken({
+        accessToken: 'old-token',
+        refreshToken: 'refresh-token',
+        expiresAt: now / 1000 + 300,
+      });
+      mockedAxios.post.mockResolvedValue({
+        data: { access_token: 'new-token', expires_at: now / 1000 + 600 },
+      });
+
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now + 220000);
+      await expect(refreshClient.get('/orders')).resolves.toMatchObject({
+        data: 'Bearer old-token',
+      });
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+
+      clock.mockReturnValue(now + 230000);
+      await expect(refreshClient.get('/orders')).resolves.toMatchObject({
+        data: 'Bearer new-token',
+      });
+      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      clock.mockRestore();
+    });
+
+    it('should not send an expired token when refreshing it fails', async () => {
+      refreshClient.setToken({
+        accessToken: 'old-token',
+        refreshToken: 'refresh-token',
+        expiresAt: Date.now() / 1000 - 60,
+      });
+      mockedAxios.post.mockRejectedValue(new Error('refresh token revoked'));
+
+      await expect(refreshClient.get('/orders')).rejects.toMatchObject({
+        code: 'TOKEN_REFRESH_FAILED',
+      });
+      expect(transport).not.toHaveBeenCalled();
+      expect(refreshClient['tokenManager'].getToken()).toBeNull();
+    });
+
+    describe('Proactive refresh', () => {
+      let proactiveClient: TanqoryApiClient;
+
+      beforeEach(() => {
+        jest.useFakeTimers();
+        proactiveClient = new TanqoryApiClient({
+          ...mockConfig,
+          proactiveTokenRefresh: true,
+          tokenRefreshLeadTime: 300000,
+          tokenRefreshJitter: 0,
+        });
+        mockedAxios.post.mockImplementation(() =>
+          Promise.resolve({ data: { access_token: 'new-token', expires_at: expiresAt() } })
+        );
+      });
+
+      afterEach(() => {
+        proactiveClient.dispose();
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+      });
+
+      it('should refresh the lead time before expiry and schedule the next refresh', async () => {
+        proactiveClient.setToken({
+          accessToken: 'old-token',
+          refreshToken: 'refresh-token',
+          expiresAt: expiresAt(),
+        });
+
+        await jest.advanceTimersByTimeAsync(3300000 - 1);
+        expect(mockedAxios.post).not.toHaveBeenCalled();
+
+        await jest.advanceTimersByTimeAsync(1);
+        expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+        expect(proactiveClient['tokenManager'].getToken()?.accessToken).toBe('new-token');
+
+        await jest.advanceTimersByTimeAsync(3300000);
+        expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+      });
+
+      it('should refresh a 300s token three quarters into its lifetime', async () => {
+        mockedAxios.post.mockImplementation(() =>
+          Promise.resolve({
+            data: { access_token: 'new-token', expires_at: Date.now() / 1000 + 300 },
+          })
+        );
+        proactiveClient.setToken({
+          accessToken: 'old-token',
+          refreshToken: 'refresh-token',
+          expiresAt: Date.now() / 1000 + 300,
+        });
+
+        await jest.advanceTimersByTimeAsync(225000 - 1);
+        expect(mockedAxios.post).not.toHaveBeenCalled();
+
+        await jest.advanceTimersByTimeAsync(1);
+        expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+
+        await jest.advanceTimersByTimeAsync(225000);
+        expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+      });
+
+      it('should spread refreshes over the jitter window', async () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0.5);
+        proactiveClient = new TanqoryApiClient({
+          ...mockConfig,
+          proactiveTokenRefresh: true,
+          tokenRefreshJitter: 60000,
+        });
+        proactiveClient.setToken({
+          accessToken: 'old-token',
+          refreshToken: 'refresh-token',
+          expiresAt: expiresAt(),
+        });
+
+        await jest.advanceTimersByTimeAsync(3270000 - 1);
+        expect(mockedAxios.post).not.toHaveBeenCalled();
+
+        await jest.advanceTimersByTimeAsync(1);
+        expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      });
+
+      it('should keep the token and retry when a background refresh fails', async () => {
+        mockedAxios.post.mockRejectedValueOnce(new Error('Network Error'));
+        proactiveClient.setToken({
+          accessToken: 'old-token',
+          refreshToken: 'refresh-token',
+          expiresAt: expiresAt(),
+        });
+
+        await jest.advanceTimersByTimeAsync(3300000);
+        expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+        expect(proactiveClient['tokenManager'].getToken()?.accessToken).toBe('old-token');
+
+        await jest.advanceTimersByTimeAsync(30000);
+        expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+        expect(proactiveClient['tokenManager'].getToken()?.accessToken).toBe('new-token');
+      });
+
+      it('should not schedule another refresh after a dispose during a refresh', async () => {
+        let respondLater: () => void = () => undefined;
+        mockedAxios.post.mockImplementation(
+          () =>
+            new Promise((resolve) => {
+              respondLater = () =>
+                resolve({ data: { access_token: 'new-token', expires_at: expiresAt() } });
+            })
+        );
+        proactiveClient.setToken({
+          accessToken: 'old-token',
+          refreshToken: 'refresh-token',
+          expiresAt: expiresAt(),
+        });
+
+        await jest.advanceTimersByTimeAsync(3300000);
+        proactiveClient.dispose();
+        respondLater();
+        await jest.advanceTimersByTimeAsync(0);
+
+        expect(proactiveClient['tokenManager'].getToken()?.accessToken).toBe('new-token');
+        expect(proactiveClient['tokenRefreshTimer']).toBeNull();
+      });
+
+      it('should stop refreshing once the token is cleared or the client disposed', async () => {
+        proactiveClient.setToken({
+          accessToken: 'old-token',
+          refreshToken: 'refresh-token',
+          expiresAt: expiresAt(),
+        });
+        proactiveClient.clearToken();
+        await jest.advanceTimersByTimeAsync(3600000);
+
+        proactiveClient.bindCustomerToken({
+          accessToken: 'customer-token',
+          refreshToken: 'refresh-token',
+        });
+        proactiveClient.dispose();
+        await jest.advanceTimersByTimeAsync(3600000);
+
+        expect(mockedAxios.post).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('Client Credentials', () => {
+    let credentialsClient: TanqoryApiClient;
+    let onResponseError: (error: unknown) => Promise<unknown>;
+    let transport: jest.Mock;
+
+    const grant = (accessToken: string, expiresIn = 3600) => ({
+      data: { access_token: accessToken, token_type: 'Bearer', expires_in: expiresIn },
+    });
+
+    beforeEach(() => {
+      credentialsClient = new TanqoryApiClient({
+        ...mockConfig,
+        clientCredentials: {
+          clientId: 'merchant-app',
+          clientSecret: 'app-secret',
+          scopes: ['orders:read', 'products:write'],
+        },
+      });
+      const { calls } = (credentialsClient['axiosInstance'].interceptors.response.use as jest.Mock)
+        .mock;
+      onResponseError = calls[calls.length - 1][1];
+      transport = jest
+        .fn()
+        .mockImplementation((config) =>
+          Promise.resolve({ data: config.headers.Authorization, status: 200 })
+        );
+      credentialsClient['axiosInstance'] =
+        transport as unknown as (typeof credentialsClient)['axiosInstance'];
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should obtain a token before the first request and reuse it', async () => {
+      mockedAxios.post.mockResolvedValue(grant('app-token'));
+
+      await expect(credentialsClient.get('/orders')).resolves.toMatchObject({
+        data: 'Bearer app-token',
+      });
+      await credentialsClient.get('/products');
+
+      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'https://api.test.com/oauth/token',
+        'grant_type=client_credentials&scope=orders%3Aread+products%3Awrite',
+        expect.objectContaining({ auth: { username: 'merchant-app', password: 'app-secret' } })
+      );
+      expect(credentialsClient['tokenManager'].getToken()).toEqual({
+        accessToken: 'app-token',
+        tokenType: 'Bearer',
+        expiresAt: expect.any(Number),
+      });
+    });
+
+    it('should reuse a 300s token for several requests', async () => {
+      mockedAxios.post.mockResolvedValue(grant('app-token', 300));
+
+      for (const url of ['/orders', '/products', '/customers', '/orders/1', '/products/1']) {
+        await expect(credentialsClient.get(url)).resolves.toMatchObject({
+          data: 'Bearer app-token',
+        });
+      }
+
+      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share one token request between concurrent requests', async () => {
+      mockedAxios.post.mockResolvedValue(grant('app-token'));
+
+      await Promise.all([credentialsClient.get('/orders'), credentialsClient.get('/products')]);
+
+      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('should request a new token once the current one expires', async () => {
+      const now = Date.now();
+      mockedAxios.post
+        .mockResolvedValueOnce(grant('first-token'))
+        .mockResolvedValueOnce(grant('second-token'));
+      await credentialsClient.get('/orders');
+
+      jest.spyOn(Date, 'now').mockReturnValue(now + 3600000);
+
+      await expect(credentialsClient.get('/orders')).resolves.toMatchObject({
+        data: 'Bearer second-token',
+      });
+      expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+    });
+
+    it('should request a new token when the current one is rejected', async () => {
+      mockedAxios.post
+        .mockResolvedValueOnce(grant('revoked-token'))
+        .mockResolvedValueOnce(grant('new-token'));
+      await credentialsClient.get('/orders');
+
+      await expect(
+        onResponseError({
+          config: { url: '/orders', headers: { Authorization: 'Bearer revoked-token' } },
+          response: { status: 401, statusText: 'Unauthorized', data: {} },
+        })
+      ).resolves.toMatchObject({ data: 'Bearer new-token' });
+    });
+
+    it('should fail without sending the request when no token can be obtained', async () => {
+      mockedAxios.post.mockRejectedValue(new Error('invalid_client'));
+
+      await expect(credentialsClient.get('/orders')).rejects.toMatchObject({
+        code: 'TOKEN_REFRESH_FAILED',
+      });
+      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(transport).not.toHaveBeenCalled();
+    });
+
+    it('should use a custom token endpoint', async () => {
+      const customClient = new TanqoryApiClient({
+        ...mockConfig,
+        clientCredentials: {
+          clientId: 'merchant-app',
+          clientSecret: 'app-secret',
+          tokenEndpoint: 'https://auth.test.com/token',
+        },
+      });
+      customClient['axiosInstance'] =
+        transport as unknown as (typeof customClient)['axiosInstance'];
+      mockedAxios.post.mockResolvedValue(grant('app-token'));
+
+      await customClient.get('/orders');
+
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'https://auth.test.com/token',
+        'grant_type=client_credentials',
+        expect.anything()
+      );
+    });
+  });
+
+  describe('Token Store', () => {
+    let transport: jest.Mock;
+
+    beforeEach(() => {
+      transport = jest
+        .fn()
+        .mockImplementation((config) =>
+          Promise.resolve({ data: config.headers.Authorization ?? null, status: 200, headers: {} })
+        );
+    });
+
+    const createClient = (tokenStore: TokenStore) => {
+      const storeClient = new TanqoryApiClient({ ...mockConfig, tokenStore });
+      storeClient['axiosInstance'] = transport as unknown as (typeof storeClient)['axiosInstance'];
+      return storeClient;
+    };
+
+    it('should authenticate the first request with the stored token', async () => {
+      const tokenStore = new MemoryTokenStore();
+      await tokenStore.save({ accessToken: 'saved-token', expiresAt: Date.now() / 1000 + 3600 });
+
+      await expect(createClient(tokenStore).get('/me')).resolves.toMatchObject({
+        data: 'Bearer saved-token',
+      });
+    });
+
+    it('should save tokens set on the client', async () => {
+      const tokenStore = new MemoryTokenStore();
+
+      await createClient(tokenStore).bindCustomerToken({ accessToken: 'customer-token' });
+
+      await expect(tokenStore.load()).resolves.toMatchObject({ accessToken: 'customer-token' });
+    });
+
+    it('should stop sending the previous token when a new one is rejected', async () => {
+      const jwt = (claims: Record<string, unknown>) =>
+        `header.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.signature`;
+      const validatingClient = new TanqoryApiClient({
+        ...mockConfig,
+        tokenValidation: { issuer: 'store-a' },
+      });
+      validatingClient['axiosInstance'] =
+        transport as unknown as (typeof validatingClient)['axiosInstance'];
+      await validatingClient.bindCustomerToken({ accessToken: jwt({ iss: 'store-a' }) });
+
+      await expect(
+        validatingClient.bindCustomerToken({ accessToken: jwt({ iss: 'store-b' }) })
+      ).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+
+      await expect(validatingClient.get('/me/orders')).resolves.toMatchObject({ data: null });
+      expect(transport.mock.calls[0][0].headers).not.toHaveProperty('Authorization');
+    });
+
+    it('should send requests without a token when the store cannot be read', async () => {
+      const tokenStore: TokenStore = {
+        load: jest.fn().mockRejectedValue(new Error('EACCES')),
+        save: jest.fn().mockResolvedValue(undefined),
+        clear: jest.fn().mockResolvedValue(undefined),
+      };
+
+      await expect(createClient(tokenStore).get('/products')).resolves.toMatchObject({
+        data: null,
+      });
+    });
+  });
+
+  describe('Middleware', () => {
+    let transport: jest.Mock;
+
+    const withTransport = (target: TanqoryApiClient) => {
+      target['axiosInstance'] = transport as unknown as (typeof target)['axiosInstance'];
+      return target;
+    };
+
+    beforeEach(() => {
+      transport = jest.fn().mockImplementation((config) =>
+        Promise.resolve({
+          data: { headers: config.headers },
+          status: 200,
+          statusText: 'OK',
+          headers: { etag: '"v1"' },
+        })
+      );
+      withTransport(client);
+    });
+
+    it('should pass a typed context to registered middlewares', async () => {
+      const seen: Array<{ url: string; attempt: number }> = [];
+      client.use(async (context, next) => {
+        seen.push({ url: context.request.url, attempt: context.attempt });
+        return next();
+      });
+
+      await client.get('/products');
+
+      expect(seen).toEqual([{ url: '/products', attempt: 0 }]);
+    });
+
+    it('should apply request changes made by middlewares', async () => {
+      client.use((context, next) => {
+        context.request.headers = { ...context.request.headers, 'X-Trace-Id': 'trace-1' };
+        return next();
+      });
+
+      await client.get('/products');
+
+      expect(transport.mock.calls[0][0].headers).toMatchObject({ 'X-Trace-Id': 'trace-1' });
+    });
+
+    it('should run middlewares in registration order and support chaining', async () => {
+      const calls: string[] = [];
+      client
+        .use(async (_context, next) => {
+          calls.push('first');
+          return next();
+        })
+        .use(async (_context, next) => {
+          calls.push('second');
+          return next();
+        });
+
+      await client.get('/products');
+
+      expect(calls).toEqual(['first', 'second']);
+    });
+
+    it('should let middlewares short-circuit the network call', async () => {
+      client.use(async () => ({ data: 'stub', status: 200, statusText: 'OK', headers: {} }));
+
+      const response = await client.get('/products');
+
+      expect(response.data).toBe('stub');
+      expect(transport).not.toHaveBeenCalled();
+    });
+
+    it('should let middlewares post-process responses', async () => {
+      client.use(async (_context, next) => {
+        const response = await next();
+        return { ...response, statusText: 'Processed' };
+      });
+
+      const response = await client.get('/products');
+
+      expect(response.statusText).toBe('Processed');
+    });
+
+    it('should see a new context for every retry attempt', async () => {
+      const attempts: number[] = [];
+      client['sleep'] = jest.fn().mockResolvedValue(undefined);
+      transport.mockRejectedValueOnce(new TanqoryError('Bad Gateway', 502, 'BAD_GATEWAY'));
+      client.use(async (context, next) => {
+        attempts.push(context.attempt);
+        return next();
+      });
+
+      await client.get('/products');
+
+      expect(attempts).toEqual([0, 1]);
+      expect(transport).toHaveBeenCalledTimes(2);
+    });
+
+    it('should surface failures on the context as TanqoryError', async () => {
+      const error = new TanqoryError('Not Found', 404, 'NOT_FOUND');
+      let seen: TanqoryError | undefined;
+      transport.mockRejectedValue(error);
+      client.use(async (context, next) => {
+        try {
+          return await next();
+        } finally {
+          seen = context.error;
+        }
+      });
+
+      await expect(client.get('/products/1')).rejects.toBe(error);
+      expect(seen).toBe(error);
+    });
+
+    describe('Built-in steps', () => {
+      it('should add the Authorization header through the auth middleware', async () => {
+        client.setToken({ accessToken: 'token-1', expiresAt: Date.now() / 1000 + 3600 });
+
+        await client.get('/me');
+
+        expect(transport.mock.calls[0][0].headers).toMatchObject({
+          Authorization: 'Bearer token-1',
+        });
+      });
+
+      it('should fall back to the API key and honour skipAuth', async () => {
+        const keyClient = withTransport(new TanqoryApiClient({ ...mockConfig, apiKey: 'key-1' }));
+
+        await keyClient.get('/products');
+        await keyClient.get('/public', { skipAuth: true });
+
+        expect(transport.mock.calls[0][0].headers).toMatchObject({ 'X-API-Key': 'key-1' });
+        expect(transport.mock.calls[1][0].headers).not.toHaveProperty('X-API-Key');
+      });
+
+      it('should serve cached GET responses through the cache middleware', async () => {
+        const cachingClient = withTransport(
+          new TanqoryApiClient({ ...mockConfig, enableCaching: true })
+        );
+        const middleware = jest.fn((_context, next) => next());
+        cachingClient.use(middleware);
+
+        const first = await cachingClient.get('/products');
+        const second = await cachingClient.get('/products');
+
+        expect(transport).toHaveBeenCalledTimes(1);
+        expect(middleware).toHaveBeenCalledTimes(2);
+        expect(second.data).toEqual(first.data);
+        expect(second.statusText).toBe('OK (cached)');
+      });
+
+      it('should send If-None-Match when refetching a cached entry', async () => {
+        const cachingClient = withTransport(
+          new TanqoryApiClient({ ...mockConfig, enableCaching: true })
+        );
+
+        await cachingClient.get('/products');
+        await cachingClient.get('/products', { skipCache: true });
+
+        expect(transport.mock.calls[1][0].headers).toMatchObject({ 'If-None-Match': '"v1"' });
+      });
+    });
+  });
+
+  describe('Cache Store', () => {
+    let transport: jest.Mock;
+    let entries: Map<string, CacheEntry>;
+    let store: CacheStore;
+
+    beforeEach(() => {
+      entries = new Map();
+      store = {
+        get: jest.fn(async (key: string) => entries.get(key) ?? null) as CacheStore['get'],
+        set: jest.fn(async (key: string, entry: CacheEntry) => {
+          entries.set(key, entry);
+        }) as CacheStore['set'],
+        delete: jest.fn(async (key: string) => {
+          entries.delete(key);
+        }),
+        invalidatePrefix: jest.fn(async () => undefined),
+        invalidateTag: jest.fn(async () => undefined),
+        clear: jest.fn(async () => entries.clear()),
+      };
+      transport = jest.fn().mockResolvedValue({
+        data: [{ id: 1 }],
+        status: 200,
+        statusText: 'OK',
+        headers: { etag: '"v1"' },
+      });
+    });
+
+    const storeClient = () => {
+      const target = new TanqoryApiClient({
+        ...mockConfig,
+        enableCaching: true,
+        cacheStore: store,
+      });
+      target['axiosInstance'] = transport as unknown as (typeof target)['axiosInstance'];
+      return target;
+    };
+
+    it('should write responses to and serve them from a custom store', async () => {
+      const target = storeClient();
+
+      await target.get('/products', { params: { page: 1 } });
+      const cached = await target.get('/products', { params: { page: 1 } });
+
+      expect(transport).toHaveBeenCalledTimes(1);
+      expect(store.set).toHaveBeenCalledWith(
+        'GET:/products:{"page":1}#default:anonymous',
+        expect.objectContaining({ data: [{ id: 1 }], ttl: 300000, etag: '"v1"' })
+      );
+      expect(cached.statusText).toBe('OK (cached)');
+    });
+
+    it('should share entries between clients using the same store', async () => {
+      await storeClient().get('/products');
+      await storeClient().get('/products');
+
+      expect(transport).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore expired entries returned by the store', async () => {
+      entries.set('GET:/products:#default:anonymous', {
+        data: 'stale',
+        timestamp: Date.now() - 10000,
+        ttl: 1000,
+      });
+
+      const response = await storeClient().get('/products');
+
+      expect(response.data).toEqual([{ id: 1 }]);
+      expect(transport).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall through to the network when the store fails', async () => {
+      (store.get as jest.Mock).mockRejectedValue(new Error('connection refused'));
+      (store.set as jest.Mock).mockRejectedValue(new Error('connection refused'));
+
+      await expect(storeClient().get('/products')).resolves.toMatchObject({
+        data: [{ id: 1 }],
+      });
+    });
+
+    it('should clear the store', async () => {
+      const target = storeClient();
+      await target.get('/products');
+
+      await target.clearCache();
+
+      expect(store.clear).toHaveBeenCalled();
+      expect(entries.size).toBe(0);
+    });
+  });
+
+  describe('Cache Statistics', () => {
+    let transport: jest.Mock;
+    let cachingClient: TanqoryApiClient;
+
+    beforeEach(() => {
+      transport = jest.fn().mockResolvedValue({
+        data: [{ id: 1 }],
+        status: 200,
+        statusText: 'OK',
+        headers: { etag: '"v1"' },
+      });
+      cachingClient = new TanqoryApiClient({ ...mockConfig, enableCaching: true });
+      cachingClient['axiosInstance'] =
+        transport as unknown as (typeof cachingClient)['axiosInstance'];
+    });
+
+    it('should report hits and misses of cached requests', async () => {
+      await cachingClient.get('/products');
+      await cachingClient.get('/products');
+      await cachingClient.get('/products');
+
+      expect(cachingClient.getCacheStats()).toMatchObject({ hits: 2, misses: 1, entries: 1 });
+    });
+
+    it('should answer 304 responses from the cache and count them as revalidations', async () => {
+      transport
+        .mockResolvedValueOnce({
+          data: [{ id: 1 }],
+          status: 200,
+          statusText: 'OK',
+          headers: { etag: '"v1"', 'cache-control': 'no-cache' },
+        })
+        .mockResolvedValueOnce({ data: '', status: 304, statusText: 'Not Modified', headers: {} });
+
+      await cachingClient.get('/products');
+      const revalidated = await cachingClient.get('/products');
+
+      const { validateStatus } = transport.mock.calls[1][0];
+      expect(validateStatus(304)).toBe(true);
+      expect(validateStatus(404)).toBe(false);
+      expect(revalidated).toMatchObject({ data: [{ id: 1 }], status: 200 });
+      expect(cachingClient.getCacheStats()?.revalidations).toBe(1);
+    });
+
+    it('should deliver cache events until unsubscribed', async () => {
+      const listener = jest.fn();
+      const unsubscribe = cachingClient.onCacheEvent(listener);
+
+      await cachingClient.get('/products');
+      unsubscribe();
+      await cachingClient.get('/products');
+
+      expect(listener.mock.calls.map(([event]) => event.type)).toEqual(['miss', 'set']);
+    });
+
+    it('should report no statistics for custom stores', () => {
+      const customClient = new TanqoryApiClient({
+        ...mockConfig,
+        cacheStore: new MemoryCacheStore(),
+      });
+
+      expect(customClient.getCacheStats()).toBeNull();
+      expect(() => customClient.onCacheEvent(jest.fn())()).not.toThrow();
+    });
+  });
+
+  describe('Cache Invalidation', () => {
+    let transport: jest.Mock;
+    let cachingClient: TanqoryApiClient;
+
+    const cachedUrls = () =>
+      Array.from(
+        (
+          (cachingClient['cacheStore'] as MemoryCacheStore)['cache']['cache'] as Map<
+            string,
+            unknown
+          >
+        ).keys()
+      ).map((key) => key.split('#')[0]);
+
+    beforeEach(async () => {
+      transport = jest
+        .fn()
+        .mockImplementation((config) =>
+          Promise.resolve({ data: config.url, status: 200, statusText: 'OK', headers: {} })
+        );
+      cachingClient = new TanqoryApiClient({ ...mockConfig, enableCaching: true });
+      cachingClient['axiosInstance'] =
+        transport as unknown as (typeof cachingClient)['axiosInstance'];
+
+      await cachingClient.get('/products', { params: { page: 1 } });
+      await cachingClient.get('/products/123', { cacheTags: ['product:123'] });
+      await cachingClient.get('/products/123/variants');
+      await cachingClient.get('/products/456', { cacheTags: ['product:456'] });
+      await cachingClient.get('/orders', { cacheTags: ['product:123'] });
+    });
+
+    it('should clear the resource, its sub-resources and its collection after an update', async () => {
+      await cachingClient.put('/products/123', { name: 'New' });
+
+      expect(cachedUrls()).toEqual(['GET:/products/456:', 'GET:/orders:']);
+    });
+
+    it('should clear the collection after a create', async () => {
+      await cachingClient.post('/products', { name: 'New' });
+
+      expect(cachedUrls()).not.toContain('GET:/products:{"page":1}');
+      expect(cachedUrls()).toContain('GET:/products/123:');
+      expect(cachedUrls()).toContain('GET:/products/456:');
+    });
+
+    it('should clear the parent resource after an action', async () => {
+      await cachingClient.post('/products/123/publish');
+
+      expect(cachedUrls()).not.toContain('GET:/products/123:');
+      expect(cachedUrls()).toContain('GET:/products/123/variants:');
+    });
+
+    it('should ignore query strings and trailing slashes on the mutation URL', async () => {
+      await cachingClient.delete('/products/456/?force=true');
+
+      expect(cachedUrls()).not.toContain('GET:/products/456:');
+      expect(cachedUrls()).not.toContain('GET:/products:{"page":1}');
+      expect(cachedUrls()).toContain('GET:/products/123:');
+    });
+
+    it('should purge tags named on the mutation', async () => {
+      await cachingClient.patch('/inventory/9', {}, { cacheTags: ['product:123'] });
+
+      expect(cachedUrls()).not.toContain('GET:/products/123:');
+      expect(cachedUrls()).not.toContain('GET:/orders:');
+      expect(cachedUrls()).toContain('GET:/products/456:');
+    });
+
+    it('should keep the cache when the mutation fails', async () => {
+      transport.mockRejectedValueOnce(new TanqoryError('Conflict', 409, 'CONFLICT'));
+
+      await expect(cachingClient.put('/products/123', {})).rejects.toMatchObject({ status: 409 });
+      expect(cachedUrls()).toContain('GET:/products/123:');
+    });
+
+    it('should only purge tags when automatic invalidation is disabled', async () => {
+      cachingClient['config'].invalidateOnMutation = false;
+
+      await cachingClient.put('/products/456', {}, { cacheTags: ['product:123'] });
+
+      expect(cachedUrls()).toEqual([
+        'GET:/products:{"page":1}',
+        'GET:/products/123/variants:',
+        'GET:/products/456:',
+      ]);
+    });
+
+    it('should invalidate by URL prefix', async () => {
+      await cachingClient.invalidatePrefix('/products/');
+
+      expect(cachedUrls()).toEqual(['GET:/products:{"page":1}', 'GET:/orders:']);
+    });
+
+    it('should invalidate by tag', async () => {
+      await cachingClient.invalidateTag('product:123');
+
+      expect(cachedUrls()).toEqual([
+        'GET:/products:{"page":1}',
+        'GET:/products/123/variants:',
+        'GET:/products/456:',
+      ]);
+    });
+  });
+
+  describe('Cache-Control', () => {
+    let now: number;
+    let transport: jest.Mock;
+    let cachingClient: TanqoryApiClient;
+
+    const respond = (data: unknown, headers: Record<string, string> = {}) => ({
+      data,
+      status: 200,
+      statusText: 'OK',
+      headers,
+    });
+
+    beforeEach(() => {
+      now = 1700000000000;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+      transport = jest.fn();
+      cachingClient = new TanqoryApiClient({ ...mockConfig, enableCaching: true });
+      cachingClient['sleep'] = jest.fn().mockResolvedValue(undefined);
+      cachingClient['axiosInstance'] =
+        transport as unknown as (typeof cachingClient)['axiosInstance'];
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should use max-age instead of the global TTL', async () => {
+      transport.mockResolvedValue(respond('v1', { 'cache-control': 'max-age=10' }));
+
+      await cachingClient.get('/products');
+      now += 5000;
+      await cachingClient.get('/products');
+      expect(transport).toHaveBeenCalledTimes(1);
+
+      now += 6000;
+      await cachingClient.get('/products');
+      expect(transport).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not store no-store or private responses', async () => {
+      transport
+        .mockResolvedValueOnce(respond('secret', { 'cache-control': 'no-store' }))
+        .mockResolvedValueOnce(respond('mine', { 'cache-control': 'private, max-age=60' }))
+        .mockResolvedValue(respond('fresh'));
+
+      await cachingClient.get('/account');
+      await cachingClient.get('/account');
+      const third = await cachingClient.get('/account');
+
+      expect(transport).toHaveBeenCalledTimes(3);
+      expect(third.data).toBe('fresh');
+    });
+
+    it('should drop an existing entry when the response becomes no-store', async () => {
+      transport
+        .mockResolvedValueOnce(respond('v1'))
+        .mockResolvedValueOnce(respond('v2', { 'cache-control': 'no-store' }))
+        .mockResolvedValue(respond('v3'));
+
+      await cachingClient.get('/products');
+      await cachingClient.get('/products', { skipCache: true });
+      const response = await cachingClient.get('/products');
+
+      expect(response.data).toBe('v3');
+    });
+
+    it('should revalidate no-cache responses before every use', async () => {
+      transport
+        .mockResolvedValueOnce(respond('v1', { 'cache-control': 'no-cache', etag: '"v1"' }))
+        .mockResolvedValue(respond('v1', { 'cache-control': 'no-cache', etag: '"v1"' }));
+
+      await cachingClient.get('/products');
+      await cachingClient.get('/products');
+
+      expect(transport).toHaveBeenCalledTimes(2);
+      expect(transport.mock.calls[1][0].headers).toMatchObject({ 'If-None-Match': '"v1"' });
+    });
+
+    it('should serve stale data while revalidating in the background', async () => {
+      let revalidated: () => void = () => undefined;
+      transport
+        .mockResolvedValueOnce(
+          respond('v1', { 'cache-control': 'max-age=10, stale-while-revalidate=60' })
+        )
+        .mockImplementation(
+          () =>
+            new Promise((resolve) => {
+              revalidated = () => resolve(respond('v2', { 'cache-control': 'max-age=10' }));
+            })
+        );
+
+      await cachingClient.get('/products');
+      now += 30000;
+
+      const stale = await cachingClient.get('/products');
+      const again = await cachingClient.get('/products');
+      revalidated();
+      await Promise.all(cachingClient['revalidations'].values());
+
+      expect(stale).toMatchObject({ data: 'v1', statusText: 'OK (stale)' });
+      expect(again.data).toBe('v1');
+      expect(transport).toHaveBeenCalledTimes(2);
+      expect(transport.mock.calls[1][0].headers).not.toHaveProperty('If-None-Match');
+
+      const refreshed = await cachingClient.get('/products');
+      expect(refreshed).toMatchObject({ data: 'v2', statusText: 'OK (cached)' });
+    });
+
+    it('should wait for the origin once the stale-while-revalidate window has passed', async () => {
+      transport
+        .mockResolvedValueOnce(
+          respond('v1', { 'cache-control': 'max-age=10, stale-while-revalidate=60' })
+        )
+        .mockResolvedValue(respond('v2'));
+
+      await cachingClient.get('/products');
+      now += 80000;
+
+      await expect(cachingClient.get('/products')).resolves.toMatchObject({ data: 'v2' });
+    });
+
+    it('should serve stale data when the origin fails within stale-if-error', async () => {
+      transport
+        .mockResolvedValueOnce(respond('v1', { 'cache-control': 'max-age=10, stale-if-error=300' }))
+        .mockRejectedValue(new TanqoryError('Service Unavailable', 503, 'SERVICE_UNAVAILABLE'));
+
+      await cachingClient.get('/products');
+      now += 60000;
+
+      await expect(cachingClient.get('/products')).resolves.toMatchObject({
+        data: 'v1',
+        statusText: 'OK (stale)',
+      });
+
+      now += 300000;
+      await expect(cachingClient.get('/products')).rejects.toMatchObject({ status: 503 });
+    });
+
+    it('should not hide client errors behind stale-if-error', async () => {
+      transport
+        .mockResolvedValueOnce(respond('v1', { 'cache-control': 'max-age=10, stale-if-error=300' }))
+        .mockRejectedValue(new TanqoryError('Not Found', 404, 'NOT_FOUND'));
+
+      await cachingClient.get('/products');
+      now += 60000;
+
+      await expect(cachingClient.get('/products')).rejects.toMatchObject({ status: 404 });
+    });
+  });
+
+  describe('Vary and Revalidation', () => {
+    let now: number;
+    let transport: jest.Mock;
+    let cachingClient: TanqoryApiClient;
+
+    const respond = (data: unknown, headers: Record<string, string> = {}, status = 200) => ({
+      data,
+      status,
+      statusText: status === 304 ? 'Not Modified' : 'OK',
+      headers,
+    });
+
+    beforeEach(() => {
+      now = 1700000000000;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+      transport = jest.fn();
+      cachingClient = new TanqoryApiClient({ ...mockConfig, enableCaching: true });
+      cachingClient['axiosInstance'] =
+        transport as unknown as (typeof cachingClient)['axiosInstance'];
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should keep responses apart by the request headers named in Vary', async () => {
+      transport.mockImplementation((config) =>
+        Promise.resolve(
+          respond(`${config.headers['Accept-Language']} ${config.headers['x-currency']}`, {
+            vary: 'Accept-Language, X-Currency',
+          })
+        )
+      );
+      const get = (language: string, currency: string) =>
+        cachingClient.get('/products/1', {
+          headers: { 'Accept-Language': language, 'x-currency': currency },
+        });
+
+      await expect(get('th', 'THB')).resolves.toMatchObject({ data: 'th THB' });
+      await expect(get('en', 'USD')).resolves.toMatchObject({ data: 'en USD' });
+      await expect(get('en', 'THB')).resolves.toMatchObject({ data: 'en THB' });
+      await expect(get('th', 'THB')).resolves.toMatchObject({
+        data: 'th THB',
+        statusText: 'OK (cached)',
+      });
+      expect(transport).toHaveBeenCalledTimes(3);
+      expect(cachingClient.getCacheStats()).toMatchObject({ hits: 1, misses: 3 });
+    });
+
+    it('should match Vary header names case-insensitively', async () => {
+      transport.mockResolvedValue(respond('th', { vary: 'accept-language' }));
+
+      await cachingClient.get('/products/1', { headers: { 'Accept-Language': 'th' } });
+      await cachingClient.get('/products/1', { headers: { 'accept-language': 'th' } });
+
+      expect(transport).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cache responses with Vary: *', async () => {
+      transport.mockResolvedValue(respond('v1', { vary: '*' }));
+
+      await cachingClient.get('/products/1');
+      await cachingClient.get('/products/1');
+
+      expect(transport).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cache non-authoritative responses', async () => {
+      transport.mockResolvedValue(respond('v1', {}, 203));
+
+      await cachingClient.get('/products/1');
+      await cachingClient.get('/products/1');
+
+      expect(transport).toHaveBeenCalledTimes(1);
+    });
+
+    it('should restart the lifetime of an entry confirmed with 304', async () => {
+      transport
+        .mockResolvedValueOnce(respond('v1', { etag: '"v1"', 'cache-control': 'max-age=10' }))
+        .mockResolvedValue(respond('', {}, 304));
+
+      await cachingClient.get('/products/1');
+      now += 20000;
+      await expect(cachingClient.get('/products/1')).resolves.toMatchObject({
+        data: 'v1',
+        status: 200,
+      });
+
+      now += 5000;
+      await expect(cachingClient.get('/products/1')).resolves.toMatchObject({
+        statusText: 'OK (cached)',
+      });
+      expect(transport).toHaveBeenCalledTimes(2);
+
+      now += 10000;
+      await cachingClient.get('/products/1');
+      expect(transport).toHaveBeenCalledTimes(3);
+      expect(transport.mock.calls[2][0].headers['If-None-Match']).toBe('"v1"');
+    });
+
+    it.each([
+      ['without Vary', {}],
+      ['with Vary', { vary: 'Accept-Language' }],
+    ])('should keep an entry confirmed with 304 past its original lifetime %s', async (_, vary) => {
+      const shortClient = new TanqoryApiClient({
+        ...mockConfig,
+        enableCaching: true,
+        cacheTTL: 15000,
+      });
+      shortClient['axiosInstance'] = transport as unknown as (typeof shortClient)['axiosInstance'];
+      transport
+        .mockResolvedValueOnce(
+          respond('v1', { etag: '"v1"', 'cache-control': 'max-age=10', ...vary })
+        )
+        .mockResolvedValue(respond('', {}, 304));
+      const get = () => shortClient.get('/products/1', { headers: { 'Accept-Language': 'th' } });
+
+      await get();
+      now += 12000;
+      await get();
+      now += 5000;
+      await expect(get()).resolves.toMatchObject({ data: 'v1', statusText: 'OK (cached)' });
+
+      now += 8000;
+      await expect(get()).resolves.toMatchObject({ data: 'v1' });
+      expect(transport.mock.calls.map(([config]) => config.headers['If-None-Match'])).toEqual([
+        undefined,
+        '"v1"',
+        '"v1"',
+      ]);
+    });
+
+    it('should apply Cache-Control sent with a 304', async () => {
+      transport
+        .mockResolvedValueOnce(respond('v1', { etag: '"v1"', 'cache-control': 'no-cache' }))
+        .mockResolvedValueOnce(respond('', { 'cache-control': 'max-age=60' }, 304));
+
+      await cachingClient.get('/products/1');
+      await cachingClient.get('/products/1');
+      now += 30000;
+      await expect(cachingClient.get('/products/1')).resolves.toMatchObject({
+        data: 'v1',
+        statusText: 'OK (cached)',
+      });
+
+      expect(transport).toHaveBeenCalledTimes(2);
+    });
+
+    it('should revalidate each variant with its own ETag', async () => {
+      transport.mockImplementation((config) =>
+        Promise.resolve(
+          config.headers['If-None-Match']
+            ? respond('', {}, 304)
+            : respond(config.headers['Accept-Language'], {
+                vary: 'Accept-Language',
+                etag: `"${config.headers['Accept-Language']}"`,
+                'cache-control': 'no-cache',
+              })
+        )
+      );
+      const get = (language: string) =>
+        cachingClient.get('/products/1', { headers: { 'Accept-Language': language } });
+
+      await get('th');
+      await get('en');
+      await expect(get('th')).resolves.toMatchObject({ data: 'th' });
+
+      expect(transport.mock.calls[2][0].headers['If-None-Match']).toBe('"th"');
+    });
+  });
+
+  describe('Cache Partitioning', () => {
+    let transport: jest.Mock;
+    let cachingClient: TanqoryApiClient;
+
+    const cachedKeys = () =>
+      Array.from(
+        (
+          (cachingClient['cacheStore'] as MemoryCacheStore)['cache']['cache'] as Map<
+            string,
+            unknown
+          >
+        ).keys()
+      );
+
+    const createClient = (config: Partial<TanqoryConfig> = {}) => {
+      cachingClient = new TanqoryApiClient({ ...mockConfig, enableCaching: true, ...config });
+      cachingClient['axiosInstance'] =
+        transport as unknown as (typeof cachingClient)['axiosInstance'];
+    };
+
+    beforeEach(() => {
+      transport = jest.fn().mockImplementation((config) =>
+        Promise.resolve({
+          data: config.headers.Authorization ?? 'anonymous',
+          status: 200,
+          statusText: 'OK',
+          headers: {},
+        })
+      );
+      createClient();
+    });
+
+    it('should not serve one customer the response cached for another', async () => {
+      cachingClient.bindCustomerToken({ accessToken: 'customer-a' });
+      await expect(cachingClient.get('/orders')).resolves.toMatchObject({
+        data: 'Bearer customer-a',
+      });
+
+      cachingClient.bindCustomerToken({ accessToken: 'customer-b' });
+      await expect(cachingClient.get('/orders')).resolves.toMatchObject({
+        data: 'Bearer customer-b',
+      });
+
+      cachingClient.bindCustomerToken({ accessToken: 'customer-a' });
+      await expect(cachingClient.get('/orders')).resolves.toMatchObject({
+        data: 'Bearer customer-a',
+        statusText: 'OK (cached)',
+      });
+      expect(transport).toHaveBeenCalledTimes(2);
+    });
+
+    it('should partition by the refreshed token when it was about to expire', async () => {
+      createClient({ enableTokenRefresh: true });
+      const expiresAt = () => Date.now() / 1000 + 60;
+      mockedAxios.post.mockImplementation((_url, body) =>
+        Promise.resolve({
+          data: {
+            access_token: `${(body as { refresh_token: string }).refresh_token}-renewed`,
+            expires_at: Date.now() / 1000 + 3600,
+          },
+        })
+      );
+
+      setAgedToken(cachingClient, {
+        accessToken: 'customer-a',
+        refreshToken: 'customer-a',
+        expiresAt: expiresAt(),
+      });
+      await expect(cachingClient.get('/me/orders')).resolves.toMatchObject({
+        data: 'Bearer customer-a-renewed',
+      });
+
+      setAgedToken(cachingClient, {
+        accessToken: 'customer-b',
+        refreshToken: 'customer-b',
+        expiresAt: expiresAt(),
+      });
+      await expect(cachingClient.get('/me/orders')).resolves.toMatchObject({
+        data: 'Bearer customer-b-renewed',
+        statusText: 'OK',
+      });
+      await expect(cachingClient.get('/me/orders', { skipAuth: true })).resolves.toMatchObject({
+        data: 'anonymous',
+        statusText: 'OK',
+      });
+      expect(transport).toHaveBeenCalledTimes(3);
+    });
+
+    it('should partition the first client-credentials request by its token', async () => {
+      createClient({ clientCredentials: { clientId: 'app', clientSecret: 'secret' } });
+      mockedAxios.post.mockResolvedValue({
+        data: { access_token: 'app-token', expires_in: 3600 },
+      });
+
+      await cachingClient.get('/orders');
+      await expect(cachingClient.get('/orders', { skipAuth: true })).resolves.toMatchObject({
+        data: 'anonymous',
+      });
+
+      expect(transport).toHaveBeenCalledTimes(2);
+    });
+
+    it('should key entries by store and a hash of the credential', async () => {
+      createClient({ storeId: 'store-1' });
+      cachingClient.bindCustomerToken({ accessToken: 'customer-a' });
+
+      await cachingClient.get('/orders');
+
+      const [key] = cachedKeys();
+      expect(key).toMatch(/^GET:\/orders:#store-1:[0-9a-f]{64}$/);
+      expect(key).not.toContain('customer-a');
+    });
+
+    it('should share public responses between credentials', async () => {
+      cachingClient.bindCustomerToken({ accessToken: 'customer-a' });
+      await cachingClient.get('/catalog', { cacheScope: 'public' });
+
+      cachingClient.bindCustomerToken({ accessToken: 'customer-b' });
+      await expect(cachingClient.get('/catalog', { cacheScope: 'public' })).resolves.toMatchObject({
+        data: 'Bearer customer-a',
+        statusText: 'OK (cached)',
+      });
+      expect(cachedKeys()).toEqual(['GET:/catalog:#default:public']);
+    });
+
+    it('should invalidate every partition after a mutation', async () => {
+      cachingClient.bindCustomerToken({ accessToken: 'customer-a' });
+      await cachingClient.get('/products');
+      await cachingClient.get('/products', { cacheScope: 'public' });
+      cachingClient.bindCustomerToken({ accessToken: 'customer-b' });
+      await cachingClient.get('/products');
+
+      await cachingClient.put('/products', {});
+
+      expect(cachedKeys()).toEqual([]);
+    });
+  });
+
+  describe('Cache Snapshots', () => {
+    const createClient = (transport: jest.Mock, config: Partial<TanqoryConfig> = {}) => {
+      const cachingClient = new TanqoryApiClient({
+        ...mockConfig,
+        enableCaching: true,
+        ...config,
+      });
+      cachingClient['axiosInstance'] =
+        transport as unknown as (typeof cachingClient)['axiosInstance'];
+      return cachingClient;
+    };
+
+    it('should warm a new client from an exported snapshot', async () => {
+      const origin = jest.fn().mockResolvedValue({
+        data: [{ id: 1 }],
+        status: 200,
+        statusText: 'OK',
+        headers: { etag: '"v1"' },
+      });
+      const exporting = createClient(origin);
+      await exporting.get('/catalog', { cacheScope: 'public' });
+
+      const snapshot = JSON.parse(JSON.stringify(exporting.exportCache()));
+      const coldStart = jest.fn();
+      const warmed = createClient(coldStart);
+
+      expect(warmed.importCache(snapshot)).toBe(1);
+      await expect(warmed.get('/catalog', { cacheScope: 'public' })).resolves.toMatchObject({
+        data: [{ id: 1 }],
+        statusText: 'OK (cached)',
+      });
+      expect(coldStart).not.toHaveBeenCalled();
+    });
+
+    it('should not support snapshots of a custom cache store', () => {
+      const store: CacheStore = {
+        get: jest.fn(),
+        set: jest.fn(),
+        delete: jest.fn(),
+        invalidatePrefix: jest.fn(),
+        invalidateTag: jest.fn(),
+        clear: jest.fn(),
+      };
+      const storeClient = createClient(jest.fn(), { cacheStore: store });
+
+      expect(storeClient.exportCache()).toBeNull();
+      expect(storeClient.importCache({ version: 1, createdAt: Date.now(), entries: [] })).toBe(0);
+    });
+  });
+
+  describe('Prefetch', () => {
+    const respond = (url: string, headers: Record<string, string> = {}) => ({
+      data: url,
+      status: 200,
+      statusText: 'OK',
+      headers,
+    });
+
+    const createClient = (transport: jest.Mock, config: Partial<TanqoryConfig> = {}) => {
+      const cachingClient = new TanqoryApiClient({
+        ...mockConfig,
+        enableCaching: true,
+        ...config,
+      });
+      cachingClient['sleep'] = jest.fn().mockResolvedValue(undefined);
+      cachingClient['axiosInstance'] =
+        transport as unknown as (typeof cachingClient)['axiosInstance'];
+      return cachingClient;
+    };
+
+    it('should fill the cache with a concurrency limit', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const transport = jest.fn().mockImplementation(async (config) => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise((resolve) => setImmediate(resolve));
+        inFlight--;
+        return respond(config.url);
+      });
+      const cachingClient = createClient(transport, { prefetchConcurrency: 2 });
+
+      const results = await cachingClient.prefetch(
+        [1, 2, 3, 4, 5].map((id) => ({ url: `/products/${id}` }))
+      );
+
+      expect(maxInFlight).toBe(2);
+      expect(results.map((result) => (result as { data: unknown }).data)).toEqual([
+        '/products/1',
+        '/products/2',
+        '/products/3',
+        '/products/4',
+        '/products/5',
+      ]);
+      await expect(cachingClient.get('/products/3')).resolves.toMatchObject({
+        statusText: 'OK (cached)',
+      });
+      expect(transport).toHaveBeenCalledTimes(5);
+    });
+
+    it('should resolve failed requests to their error', async () => {
+      const transport = jest
+        .fn()
+        .mockResolvedValueOnce(respond('/products/1'))
+        .mockRejectedValueOnce(new TanqoryError('Not Found', 404, 'NOT_FOUND'));
+      const cachingClient = createClient(transport, { prefetchConcurrency: 1 });
+
+      const [found, missing] = await cachingClient.prefetch([
+        { url: '/products/1' },
+        { url: '/products/2' },
+      ]);
+
+      expect(found).toMatchObject({ data: '/products/1' });
+      expect(missing).toBeInstanceOf(TanqoryError);
+      expect(missing).toMatchObject({ status: 404 });
+    });
+
+    it('should do nothing while caching is disabled', async () => {
+      const transport = jest.fn();
+      const uncachedClient = createClient(transport, { enableCaching: false });
+
+      await expect(uncachedClient.prefetch([{ url: '/products/1' }])).resolves.toEqual([]);
+      expect(transport).not.toHaveBeenCalled();
+    });
+
+    describe('Warm list', () => {
+      beforeEach(() => {
+        jest.useFakeTimers();
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      it('should refresh entries shortly before they go stale', async () => {
+        const transport = jest
+          .fn()
+          .mockImplementation((config) =>
+            Promise.resolve(respond(config.url, { 'cache-control': 'max-age=60' }))
+          );
+        const warmClient = createClient(transport, {
+          cacheWarmList: [{ url: '/catalog', cacheScope: 'public' }],
+          cacheWarmLeadTime: 10000,
+        });
+
+        await jest.advanceTimersByTimeAsync(0);
+        expect(transport).toHaveBeenCalledTimes(1);
+
+        await jest.advanceTimersByTimeAsync(49000);
+        expect(transport).toHaveBeenCalledTimes(1);
+
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(transport).toHaveBeenCalledTimes(2);
+
+        await jest.advanceTimersByTimeAsync(15000);
+        await expect(warmClient.get('/catalog', { cacheScope: 'public' })).resolves.toMatchObject({
+          statusText: 'OK (cached)',
+        });
+        expect(transport).toHaveBeenCalledTimes(2);
+
+        warmClient.dispose();
+        await jest.advanceTimersByTimeAsync(60000);
+        expect(transport).toHaveBeenCalledTimes(2);
+      });
+
+      it('should retry failed refreshes after the lead time', async () => {
+        const transport = jest
+          .fn()
+          .mockRejectedValueOnce(new TanqoryError('Bad Request', 400, 'BAD_REQUEST'))
+          .mockImplementation((config) => Promise.resolve(respond(config.url)));
+        const warmClient = createClient(transport, {
+          cacheWarmList: [{ url: '/catalog' }],
+          cacheWarmLeadTime: 5000,
+        });
+
+        await jest.advanceTimersByTimeAsync(0);
+        expect(transport).toHaveBeenCalledTimes(1);
+
+        await jest.advanceTimersByTimeAsync(5000);
+        expect(transport).toHaveBeenCalledTimes(2);
+
+        warmClient.dispose();
+      });
+
+      it('should not schedule another run after a dispose during a run', async () => {
+        let respondLater: () => void = () => undefined;
+        const transport = jest.fn().mockImplementation(
+          (config) =>
+            new Promise((resolve) => {
+              respondLater = () => resolve(respond(config.url, { 'cache-control': 'max-age=2' }));
+            })
+        );
+        const warmClient = createClient(transport, { cacheWarmList: [{ url: '/catalog' }] });
+
+        await jest.advanceTimersByTimeAsync(0);
+        warmClient.dispose();
+        respondLater();
+        await jest.advanceTimersByTimeAsync(10000);
+
+        expect(transport).toHaveBeenCalledTimes(1);
+        expect(warmClient['warmTimers'].size).toBe(0);
+      });
+
+      it('should not count its own cache reads in the statistics', async () => {
+        const transport = jest
+          .fn()
+          .mockImplementation((config) =>
+            Promise.resolve(respond(config.url, { 'cache-control': 'max-age=60' }))
+          );
+        const warmClient = createClient(transport, {
+          cacheWarmList: [{ url: '/catalog' }],
+          cacheWarmLeadTime: 10000,
+        });
+
+        await jest.advanceTimersByTimeAsync(0);
+        expect(warmClient.getCacheStats()).toMatchObject({ hits: 0, stale: 0 });
+
+        warmClient.dispose();
+      });
+
+      it('should not keep the process alive', () => {
+        const warmClient = createClient(jest.fn(), { cacheWarmList: [{ url: '/catalog' }] });
+
+        const [timer] = Array.from(warmClient['warmTimers']);
+        expect(timer.hasRef()).toBe(false);
+
+        warmClient.dispose();
+        expect(warmClient['warmTimers'].size).toBe(0);
+      });
+    });
+  });
+
+  describe('Cancellation', () => {
+    const okResponse = { data: {}, status: 200, statusText: 'OK', headers: {} };
+    let transport: jest.Mock;
+
+    beforeEach(() => {
+      transport = jest.fn().mockResolvedValue(okResponse);
+      client['axiosInstance'] = transport as unknown as (typeof client)['axiosInstance'];
+    });
+
+    it('should pass the signal to axios', async () => {
+      const controller = new AbortController();
+
+      await client.get('/products', { signal: controller.signal });
+
+      expect(transport.mock.calls[0][0].signal).toBe(controller.signal);
+    });
+
+    it('should reject with ABORTED when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(client.get('/products', { signal: controller.signal })).rejects.toMatchObject({
+        code: 'ABORTED',
+      });
+      expect(transport).not.toHaveBeenCalled();
+    });
+
+    it('should interrupt a pending retry delay', async () => {
+      const controller = new AbortController();
+      transport.mockRejectedValue(new TanqoryError('Bad Gateway', 502, 'BAD_GATEWAY'));
+
+      const pending = client.get('/products', { signal: controller.signal });
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(pending).rejects.toMatchObject({ code: 'ABORTED' });
+      expect(transport).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not share an in-flight request between callers with signals', async () => {
+      const controller = new AbortController();
+
+      await Promise.all([
+        client.get('/products', { signal: controller.signal }),
+        client.get('/products'),
+      ]);
+
+      expect(transport).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Idempotency', () => {
+    let transport: jest.Mock;
+
+    const serverError = () => new TanqoryError('Bad Gateway', 502, 'BAD_GATEWAY');
+    const withTransport = (target: TanqoryApiClient) => {
+      target['axiosInstance'] = transport as unknown as (typeof target)['axiosInstance'];
+      target['sleep'] = jest.fn().mockResolvedValue(undefined);
+      return target;
+    };
+
+    beforeEach(() => {
+      transport = jest
+        .fn()
+        .mockRejectedValueOnce(serverError())
+        .mockResolvedValue({ data: {}, status: 201, statusText: 'Created', headers: {} });
+      withTransport(client);
+    });
+
+    it('should reuse one generated Idempotency-Key across retries of a POST', async () => {
+      await client.post('/orders', { sku: 'abc' });
+
+      const keys = transport.mock.calls.map(([config]) => config.headers['Idempotency-Key']);
+      expect(transport).toHaveBeenCalledTimes(2);
+      expect(keys[0]).toMatch(/^[0-9a-f-]{36}$/);
+      expect(keys[1]).toBe(keys[0]);
+    });
+
+    it('should generate a new key for each logical mutation', async () => {
+      transport
+        .mockReset()
+        .mockResolvedValue({ data: {}, status: 200, statusText: 'OK', headers: {} });
+
+      await client.patch('/orders/1', { note: 'a' });
+      await client.patch('/orders/1', { note: 'a' });
+
+      const [first, second] = transport.mock.calls.map(
+        ([config]) => config.headers['Idempotency-Key']
+      );
+      expect(first).not.toBe(second);
+    });
+
+    it('should use a caller supplied key', async () => {
+      await client.post('/orders', {}, { idempotencyKey: 'order-42' });
+
+      transport.mock.calls.forEach(([config]) =>
+        expect(config.headers['Idempotency-Key']).toBe('order-42')
+      );
+    });
+
+    it('should keep an Idempotency-Key header set by the caller', async () => {
+      await client.post('/orders', {}, { headers: { 'idempotency-key': 'from-header' } });
+
+      expect(transport.mock.calls[0][0].headers).toEqual(
+        expect.objectContaining({ 'idempotency-key': 'from-header' })
+      );
+      expect(transport.mock.calls[0][0].headers).not.toHaveProperty('Idempotency-Key');
+    });
+
+    it('should not add keys to idempotent methods', async () => {
+      await client.put('/orders/1', {});
+
+      expect(transport.mock.calls[0][0].headers).not.toHaveProperty('Idempotency-Key');
+    });
+
+    it('should not retry keyless mutations when the policy forbids it', async () => {
+      const strictClient = withTransport(
+        new TanqoryApiClient({
+          ...mockConfig,
+          autoIdempotencyKey: false,
+          retryNonIdempotent: false,
+        })
+      );
+
+      await expect(strictClient.post('/orders', {})).rejects.toThrow('Bad Gateway');
+      expect(transport).toHaveBeenCalledTimes(1);
+    });
+
+    it('should still retry keyed mutations when the policy forbids keyless retries', async () => {
+      const strictClient = withTransport(
+        new TanqoryApiClient({
+          ...mockConfig,
+          autoIdempotencyKey: false,
+          retryNonIdempotent: false,
+        })
+      );
+
+      await strictClient.post('/orders', {}, { idempotencyKey: 'order-42' });
+
+      expect(transport).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Pagination', () => {
+    it('should fetch pages through request()', async () => {
+      const execute = jest
+        .fn()
+        .mockResolvedValueOnce({
+          data: [{ id: 1 }, { id: 2 }],
+          status: 200,
+          statusText: 'OK',
+          headers: {},
+        })
+        .mockResolvedValueOnce({ data: [{ id: 3 }], status: 200, statusText: 'OK', headers: {} });
+      client['executeWithRetry'] = execute;
+      const request = jest.spyOn(client, 'request');
+
+      const products = await client
+        .paginate<{ id: number }>('/products', { pageSize: 2 })
+        .toArray();
+
+      expect(products.map((product) => product.id)).toEqual([1, 2, 3]);
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(request.mock.calls[1][0]).toMatchObject({
+        url: '/products',
+        method: 'GET',
+        params: { page: 2, limit: 2 },
+      });
+    });
+  });
+
+  describe('Streaming', () => {
+    let transport: jest.Mock;
+
+    beforeEach(() => {
+      transport = jest.fn().mockImplementation(() =>
+        Promise.resolve({
+          data: Readable.from(['{"id":1}\n{"id":2}\n']),
+          status: 200,
+          statusText: 'OK',
+          headers: {},
+        })
+      );
+      client['axiosInstance'] = transport as unknown as (typeof client)['axiosInstance'];
+    });
+
+    it('should request a streaming response with auth applied', async () => {
+      client.setToken({ accessToken: 'token-123', expiresAt: Date.now() / 1000 + 3600 });
+
+      const orders = await client.stream<{ id: number }>('/orders/export').toArray();
+
+      expect(orders).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(transport).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: '/orders/export',
+          method: 'get',
+          responseType: 'stream',
+          headers: { Authorization: 'Bearer token-123' },
+        })
+      );
+    });
+
+    it('should give each concurrent stream its own response', async () => {
+      await Promise.all([
+        client.stream('/orders/export').toArray(),
+        client.stream('/orders/export').toArray(),
+      ]);
+
+      expect(transport).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry failures before the response starts', async () => {
+      transport.mockImplementationOnce(() =>
+        Promise.reject(new TanqoryError('Service Unavailable', 503, 'SERVICE_UNAVAILABLE'))
+      );
+      client['sleep'] = jest.fn().mockResolvedValue(undefined);
+
+      await expect(client.stream('/orders/export').toArray()).resolves.toHaveLength(2);
+      expect(transport).toHaveBeenCalledTimes(2);
+    });
+
+    it('should read streamed error bodies into the TanqoryError', async () => {
+      const streamClient = new TanqoryApiClient(mockConfig);
+      const { calls } = (streamClient['axiosInstance'].interceptors.response.use as jest.Mock).mock;
+      const onResponseError = calls[calls.length - 1][1];
+
+      const error = await onResponseError({
+        config: { url: '/orders/export', method: 'get', responseType: 'stream' },
+        response: {
+          status: 422,
+          statusText: 'Unprocessable Entity',
+          data: Readable.from(['{"message":"Export too large","code":"EXPORT_TOO_LARGE"}']),
+        },
+      }).catch((e: TanqoryError) => e);
+
+      expect(error).toMatchObject({
+        message: 'Export too large',
+        status: 422,
+        code: 'EXPORT_TOO_LARGE',
+      });
+    });
+  });
+
+  describe('Batch', () => {
+    const ok = (data: unknown) => ({ data, status: 200, statusText: 'OK', headers: {} });
+
+    it('should send requests as one batch call and map results in order', async () => {
+      const request = jest.spyOn(client, 'request').mockResolvedValue(
+        ok({
+          responses: [
+            { id: '1', status: 404, body: { message: 'Order not found', code: 'NOT_FOUND' } },
+            { id: '0', status: 200, headers: { etag: '"v1"' }, body: { id: 1 } },
+          ],
+        })
+      );
+
+      const results = await client.batch([
+        { url: '/products/1', method: 'GET' },
+        { url: '/orders/9', method: 'PATCH', data: { note: 'gift' } },
+      ]);
+
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(request.mock.calls[0][0]).toEqual({
+        url: '/batch',
+        method: 'POST',
+        data: {
+          requests: [
+            { id: '0', method: 'GET', url: '/products/1' },
+            { id: '1', method: 'PATCH', url: '/orders/9', body: { note: 'gift' } },
+          ],
+        },
+      });
+      expect(results[0]).toEqual({
+        data: { id: 1 },
+        status: 200,
+        statusText: '',
+        headers: { etag: '"v1"' },
+      });
+      expect(results[1]).toBeInstanceOf(TanqoryError);
+      expect(results[1]).toMatchObject({
+        message: 'Order not found',
+        status: 404,
+        code: 'NOT_FOUND',
+      });
+    });
+
+    it('should invalidate cached reads for mutations applied in a batch', async () => {
+      const cachingClient = new TanqoryApiClient({ ...mockConfig, enableCaching: true });
+      const transport = jest.fn().mockImplementation((config) =>
+        Promise.resolve(
+          config.url === '/batch'
+            ? ok({
+                responses: [
+                  { id: '0', status: 200, body: { id: 123 } },
+                  { id: '1', status: 409, body: { message: 'Conflict' } },
+                ],
+              })
+            : ok(config.url)
+        )
+      );
+      cachingClient['axiosInstance'] =
+        transport as unknown as (typeof cachingClient)['axiosInstance'];
+      const urls = ['/products/123', '/products', '/orders/9'];
+      for (const url of urls) {
+        await cachingClient.get(url);
+      }
+
+      await cachingClient.batch([
+        { url: '/products/123', method: 'PUT', data: { title: 'Renamed' } },
+        { url: '/orders/9', method: 'PATCH', data: { note: 'gift' } },
+      ]);
+      const reads = await Promise.all(urls.map((url) => cachingClient.get(url)));
+
+      expect(reads.map((read) => read.statusText)).toEqual(['OK', 'OK', 'OK (cached)']);
+      expect(transport).toHaveBeenCalledTimes(6);
+    });
+
+    it('should split large batches by batchMaxSize', async () => {
+      const batchClient = new TanqoryApiClient({ ...mockConfig, batchMaxSize: 2 });
+      const request = jest.spyOn(batchClient, 'request').mockImplementation(async (config) =>
+        ok({
+          responses: (config.data as { requests: { id: string }[] }).requests.map(({ id }) => ({
+            id,
+            status: 200,
+            body: id,
+          })),
+        })
+      );
+
+      const results = await batchClient.batch(
+        ['/a', '/b', '/c'].map((url) => ({ url, method: 'GET' as const }))
+      );
+
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(results.map((result) => (result as { data: unknown }).data)).toEqual(['0', '1', '0']);
+    });
+
+    it('should report a missing item result as an error', async () => {
+      jest.spyOn(client, 'request').mockResolvedValue(ok({ responses: [] }));
+
+      const [result] = await client.batch([{ url: '/products/1', method: 'GET' }]);
+
+      expect(result).toMatchObject({ code: 'BATCH_ERROR' });
+    });
+
+    it('should give every item the error when the batch call fails', async () => {
+      const failure = new TanqoryError('Bad Gateway', 502, 'BAD_GATEWAY');
+      jest.spyOn(client, 'request').mockRejectedValue(failure);
+
+      const results = await client.batch([
+        { url: '/a', method: 'GET' },
+        { url: '/b', method: 'GET' },
+      ]);
+
+      expect(results).toEqual([failure, failure]);
+    });
+
+    it('should fall back to individual requests when batching is unsupported', async () => {
+      const request = jest.spyOn(client, 'request').mockImplementation(async (config) => {
+        if (config.url === '/batch') {
+          throw new TanqoryError('Not Found', 404, 'NOT_FOUND');
+        }
+        if (config.url === '/b') {
+          throw new TanqoryError('Forbidden', 403, 'FORBIDDEN');
+        }
+        return ok(config.url);
+      });
+
+      const requests = [
+        { url: '/a', method: 'GET' as const },
+        { url: '/b', method: 'GET' as const },
+      ];
+      const results = await client.batch(requests);
+
+      expect(results[0]).toMatchObject({ data: '/a' });
+      expect(results[1]).toMatchObject({ status: 403 });
+
+      request.mockClear();
+      await client.batch(requests);
+
+      expect(request.mock.calls.map(([config]) => config.url)).toEqual(['/a', '/b']);
+    });
+
+    it('should cap concurrency of individual requests', async () => {
+      const batchClient = new TanqoryApiClient({
+        ...mockConfig,
+        batchEndpoint: false,
+        batchConcurrency: 2,
+      });
+      let active = 0;
+      let peak = 0;
+      jest.spyOn(batchClient, 'request').mockImplementation(async (config) => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        active--;
+        return ok(config.url);
+      });
+
+      const results = await batchClient.batch(
+        ['/a', '/b', '/c', '/d', '/e'].map((url) => ({ url, method: 'GET' as const }))
+      );
+
+      expect(peak).toBe(2);
+      expect(results.map((result) => (result as { data: unknown }).data)).toEqual([
+        '/a',
+        '/b',
+        '/c',
+        '/d',
+        '/e',
+      ]);
+    });
+
+    it('should resolve an empty batch without sending anything', async () => {
+      const request = jest.spyOn(client, 'request');
+
+      await expect(client.batch([])).resolves.toEqual([]);
+      expect(request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Circuit Breaker', () => {
+    it('should not track circuits when disabled', () => {
+      expect(client.getCircuitStates()).toEqual([]);
+      expect(client.getCircuitState('GET', '/products/1')).toBeNull();
+    });
+
+    it('should fail fast once the circuit for a route opens', async () => {
+      const breakerClient = new TanqoryApiClient({
+        ...mockConfig,
+        enableCircuitBreaker: true,
+        circuitBreakerThreshold: 2,
+      });
+      const transport = jest
+        .fn()
+        .mockRejectedValue(new TanqoryError('Bad Gateway', 502, 'BAD_GATEWAY'));
+      breakerClient['axiosInstance'] =
+        transport as unknown as (typeof breakerClient)['axiosInstance'];
+
+      await expect(breakerClient.get('/products/1', { retries: 0 })).rejects.toThrow('Bad Gateway');
+      await expect(breakerClient.get('/products/2', { retries: 0 })).rejects.toThrow('Bad Gateway');
+      await expect(breakerClient.get('/products/3', { retries: 0 })).rejects.toMatchObject({
+        code: 'CIRCUIT_OPEN',
+      });
+
+      expect(transport).toHaveBeenCalledTimes(2);
+      expect(breakerClient.getCircuitState('GET', '/products/99')).toMatchObject({
+        key: 'GET /products/:id',
+        state: 'open',
+        failures: 2,
+      });
+
+      breakerClient.resetCircuitBreaker();
+      expect(breakerClient.getCircuitStates()).toEqual([]);
+    });
+  });
+
+  describe('Rate Limiting', () => {
+    it('should not track budgets when disabled', () => {
+      expect(client.getRateLimitState()).toBeNull();
+    });
+
+    it('should queue requests once the advertised budget is spent', async () => {
+      const limitedClient = new TanqoryApiClient({
+        ...mockConfig,
+        storeId: 'store-1',
+        enableRateLimiter: true,
+      });
+      const transport = jest.fn().mockResolvedValue({
+        data: {},
+        status: 200,
+        statusText: 'OK',
+        headers: {
+          'x-ratelimit-limit': '10',
+          'x-ratelimit-remaining': '0',
+          'x-ratelimit-reset': '60',
+        },
+      });
+      limitedClient['axiosInstance'] =
+        transport as unknown as (typeof limitedClient)['axiosInstance'];
+
+      await limitedClient.get('/products');
+      const queued = limitedClient.get('/categories');
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(transport).toHaveBeenCalledTimes(1);
+      expect(limitedClient.getRateLimitState()).toMatchObject({
+        key: 'store-1',
+        limit: 10,
+        remaining: 0,
+        queued: 1,
+      });
+
+      limitedClient.dispose();
+      await expect(queued).rejects.toMatchObject({ code: 'ABORTED' });
+      expect(transport).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share an injected limiter between clients of the same store', async () => {
+      const rateLimiter = new RateLimiter();
+      const first = new TanqoryApiClient({
+        ...mockConfig,
+        storeId: 'store-1',
+        enableRateLimiter: true,
+        rateLimiter,
+      });
+      const second = new TanqoryApiClient({
+        ...mockConfig,
+        storeId: 'store-1',
+        enableRateLimiter: true,
+        rateLimiter,
+      });
+      first['axiosInstance'] = jest.fn().mockResolvedValue({
+        data: {},
+        status: 200,
+        statusText: 'OK',
+        headers: { 'x-ratelimit-limit': '10', 'x-ratelimit-remaining': '7' },
+      }) as unknown as (typeof first)['axiosInstance'];
+
+      await first.get('/products');
+
+      expect(second.getRateLimitState()).toMatchObject({ remaining: 7 });
+      rateLimiter.reset();
+    });
+
+    it('should wait for Retry-After when rate limited', async () => {
+      const sleep = jest.fn().mockResolvedValue(undefined);
+      client['sleep'] = sleep;
+      client['axiosInstance'] = jest
+        .fn()
+        .mockRejectedValueOnce(
+          new TanqoryError('Too Many Requests', 429, 'RATE_LIMITED', {
+            data: {},
+            status: 429,
+            statusText: 'Too Many Requests',
+            headers: { 'retry-after': '3' },
+          })
+        )
+        .mockResolvedValue({
+          data: {},
+          status: 200,
+          statusText: 'OK',
+          headers: {},
+        }) as unknown as (typeof client)['axiosInstance'];
+
+      await client.get('/products');
+
+      expect(sleep).toHaveBeenCalledWith(3000, undefined);
+    });
+  });
+
+  describe('Lifecycle', () => {
+    it('should only sweep the cache when an interval is configured', () => {
+      const sweeping = new TanqoryApiClient({
+        ...mockConfig,
+        enableCaching: true,
+        cacheSweepInterval: 60000,
+      });
+
+      expect(client['cache']?.['sweeper']).toBeNull();
+      expect(sweeping['cache']?.['sweeper']).not.toBeNull();
+
+      sweeping.dispose();
+      expect(sweeping['cache']?.['sweeper']).toBeNull();
+    });
+
+    it('should abort retries waiting for back-off', async () => {
+      const waiting = client['sleep'](60000);
+
+      client.dispose();
+
+      await expect(waiting).rejects.toMatchObject({ code: 'ABORTED' });
+      expect(client['pendingSleeps'].size).toBe(0);
+    });
+
+    it('should leave a shared rate limiter alone', () => {
+      const rateLimiter = new RateLimiter();
+      const reset = jest.spyOn(rateLimiter, 'reset');
+      const sharing = new TanqoryApiClient({ ...mockConfig, enableRateLimiter: true, rateLimiter });
+
+      sharing.dispose();
+
+      expect(reset).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Configuration', () => {
     it('should use custom timeout', () => {
       const customConfig: TanqoryConfig = {
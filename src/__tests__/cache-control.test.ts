@@ -0,0 +1,46 @@
+import { CacheControl } from '@/cache-control';
+
+describe('CacheControl', () => {
+  it('should return defaults without a header', () => {
+    expect(CacheControl.parse(undefined)).toEqual({
+      noStore: false,
+      noCache: false,
+      private: false,
+    });
+  });
+
+  it('should parse max-age and stale extensions', () => {
+    expect(
+      CacheControl.parse('public, max-age=60, stale-while-revalidate=30, stale-if-error=86400')
+    ).toEqual({
+      noStore: false,
+      noCache: false,
+      private: false,
+      maxAge: 60,
+      staleWhileRevalidate: 30,
+      staleIfError: 86400,
+    });
+  });
+
+  it('should parse flag directives case-insensitively', () => {
+    expect(CacheControl.parse('No-Store, NO-CACHE, Private')).toMatchObject({
+      noStore: true,
+      noCache: true,
+      private: true,
+    });
+  });
+
+  it('should accept quoted values', () => {
+    expect(CacheControl.parse('max-age="120"').maxAge).toBe(120);
+  });
+
+  it('should ignore malformed values and unknown directives', () => {
+    expect(CacheControl.parse('max-age=soon, stale-if-error=-1, immutable')).toEqual({
+      noStore: false,
+      noCache: false,
+      private: false,
+      maxAge: undefined,
+      staleIfError: undefined,
+    });
+  });
+});
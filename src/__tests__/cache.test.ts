@@ -1,4 +1,5 @@
-import { MemoryCache } from '@/cache';
+import { MemoryCache, MemoryCacheStore } from '@/cache';
+import { CacheEvent } from '@/types';
 
 describe('MemoryCache', () => {
   let cache: MemoryCache;
@@ -22,6 +23,13 @@ describe('MemoryCache', () => {
       expect(retrieved).toEqual(testData);
     });
 
+    it('should append the partition after the request part of the key', () => {
+      expect(MemoryCache.keyFor('/products', 'GET', { page: 1 }, 'store-1:public')).toBe(
+        'GET:/products:{"page":1}#store-1:public'
+      );
+      expect(MemoryCache.keyFor('/products', 'GET')).toBe('GET:/products:');
+    });
+
     it('should return null for non-existent data', () => {
       const result = cache.get('https://api.test.com/nonexistent', 'GET');
       expect(result).toBeNull();
@@ -166,6 +174,336 @@ describe('MemoryCache', () => {
     });
   });
 
+  describe('Size Limits', () => {
+    const url = (id: number) => `https://api.test.com/products/${id}`;
+
+    it('should evict the least recently used entry beyond maxEntries', () => {
+      const bounded = new MemoryCache(defaultTTL, { maxEntries: 2 });
+
+      bounded.set(url(1), 'GET', { id: 1 });
+      bounded.set(url(2), 'GET', { id: 2 });
+      bounded.get(url(1), 'GET');
+      bounded.set(url(3), 'GET', { id: 3 });
+
+      expect(bounded.size).toBe(2);
+      expect(bounded.get(url(1), 'GET')).toEqual({ id: 1 });
+      expect(bounded.get(url(2), 'GET')).toBeNull();
+      expect(bounded.get(url(3), 'GET')).toEqual({ id: 3 });
+    });
+
+    it('should not count overwritten keys twice', () => {
+      const bounded = new MemoryCache(defaultTTL, { maxEntries: 2 });
+
+      bounded.set(url(1), 'GET', { id: 1 });
+      bounded.set(url(2), 'GET', { id: 2 });
+      bounded.set(url(2), 'GET', { id: 2, name: 'updated' });
+
+      expect(bounded.size).toBe(2);
+      expect(bounded.get(url(1), 'GET')).toEqual({ id: 1 });
+    });
+
+    it('should evict expired entries before live ones', () => {
+      jest.useFakeTimers();
+      try {
+        const bounded = new MemoryCache(defaultTTL, { maxEntries: 2 });
+
+        bounded.set(url(1), 'GET', { id: 1 });
+        bounded.set(url(2), 'GET', { id: 2 }, undefined, 100);
+        jest.advanceTimersByTime(200);
+        bounded.set(url(3), 'GET', { id: 3 });
+
+        expect(bounded.get(url(1), 'GET')).toEqual({ id: 1 });
+        expect(bounded.get(url(3), 'GET')).toEqual({ id: 3 });
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should keep the approximate size under maxBytes', () => {
+      const bounded = new MemoryCache(defaultTTL, { maxBytes: 600 });
+      const payload = { description: 'x'.repeat(100) };
+
+      for (let id = 1; id <= 5; id++) {
+        bounded.set(url(id), 'GET', payload);
+      }
+
+      expect(bounded.bytes).toBeLessThanOrEqual(600);
+      expect(bounded.size).toBeLessThan(5);
+      expect(bounded.get(url(5), 'GET')).toEqual(payload);
+      expect(bounded.get(url(1), 'GET')).toBeNull();
+    });
+
+    it('should skip entries larger than maxBytes', () => {
+      const bounded = new MemoryCache(defaultTTL, { maxBytes: 100 });
+
+      bounded.set(url(1), 'GET', { id: 1 });
+      bounded.set(url(2), 'GET', { description: 'x'.repeat(200) });
+
+      expect(bounded.get(url(2), 'GET')).toBeNull();
+      expect(bounded.get(url(1), 'GET')).toEqual({ id: 1 });
+    });
+
+    it('should release tracked bytes on invalidate and clear', () => {
+      cache.set(url(1), 'GET', { id: 1 });
+      cache.set(url(2), 'GET', { id: 2 });
+      const bytes = cache.bytes;
+
+      cache.invalidate(url(1), 'GET');
+      expect(cache.bytes).toBeLessThan(bytes);
+
+      cache.clear();
+      expect(cache.bytes).toBe(0);
+      expect(cache.size).toBe(0);
+    });
+  });
+
+  describe('Invalidation', () => {
+    beforeEach(() => {
+      cache.setEntry('GET:/products:', { data: [], timestamp: Date.now(), ttl: 1000 });
+      cache.setEntry('GET:/products/1:', {
+        data: { id: 1 },
+        timestamp: Date.now(),
+        ttl: 1000,
+        tags: ['product:1', 'catalog'],
+      });
+      cache.setEntry('GET:/orders:', {
+        data: [],
+        timestamp: Date.now(),
+        ttl: 1000,
+        tags: ['catalog'],
+      });
+    });
+
+    it('should invalidate keys by prefix', () => {
+      cache.invalidatePrefix('GET:/products');
+
+      expect(cache.size).toBe(1);
+      expect(cache.getEntry('GET:/orders:')).not.toBeNull();
+    });
+
+    it('should invalidate entries by tag', () => {
+      cache.invalidateTag('catalog');
+
+      expect(cache.size).toBe(1);
+      expect(cache.getEntry('GET:/products:')).not.toBeNull();
+    });
+
+    it('should leave entries alone for unknown tags', () => {
+      cache.invalidateTag('product:2');
+
+      expect(cache.size).toBe(3);
+    });
+  });
+
+  describe('Statistics and Events', () => {
+    const url = 'https://api.test.com/products';
+
+    it('should count hits, misses and sets', () => {
+      const events: CacheEvent[] = [];
+      cache.on('hit', (event) => events.push(event));
+      cache.on('miss', (event) => events.push(event));
+      cache.on('set', (event) => events.push(event));
+
+      cache.get(url, 'GET');
+      cache.set(url, 'GET', { id: 1 });
+      cache.get(url, 'GET');
+      cache.get(url, 'GET');
+
+      expect(cache.getStats()).toEqual({
+        hits: 2,
+        misses: 1,
+        stale: 0,
+        evictions: 0,
+        revalidations: 0,
+        entries: 1,
+        bytes: cache.bytes,
+      });
+      expect(events.map((event) => event.type)).toEqual(['miss', 'set', 'hit', 'hit']);
+      expect(events[0].key).toBe(`GET:${url}:`);
+    });
+
+    it('should not count reads of Vary index entries', () => {
+      cache.setEntry(`GET:${url}:`, {
+        data: null,
+        timestamp: Date.now(),
+        ttl: 1000,
+        vary: ['accept-language'],
+      });
+
+      expect(cache.getEntry(`GET:${url}:`)).toMatchObject({ vary: ['accept-language'] });
+      expect(cache.getStats()).toMatchObject({ hits: 0, misses: 0, stale: 0 });
+    });
+
+    it('should not count peeked entries', () => {
+      cache.set(url, 'GET', { id: 1 });
+
+      expect(cache.peekEntry(`GET:${url}:`)).toMatchObject({ data: { id: 1 } });
+      expect(cache.peekEntry(`GET:${url}:other`)).toBeNull();
+      expect(cache.getStats()).toMatchObject({ hits: 0, misses: 0, stale: 0 });
+    });
+
+    it('should count entries past their max age as stale', () => {
+      cache.setEntry('GET:/products:', {
+        data: [],
+        timestamp: Date.now() - 5000,
+        ttl: 60000,
+        maxAge: 1000,
+      });
+
+      expect(cache.getEntry('GET:/products:')).not.toBeNull();
+      expect(cache.getStats()).toMatchObject({ hits: 0, stale: 1 });
+    });
+
+    it('should report evictions with their reason', () => {
+      const bounded = new MemoryCache(defaultTTL, { maxEntries: 1 });
+      const evictions: CacheEvent[] = [];
+      bounded.on('evict', (event) => evictions.push(event));
+
+      bounded.set('/a', 'GET', 1);
+      bounded.set('/b', 'GET', 2);
+      bounded.setEntry('GET:/c:', { data: 3, timestamp: Date.now() - 2000, ttl: 1000 });
+
+      expect(evictions).toEqual([
+        { type: 'evict', key: 'GET:/a:', reason: 'size' },
+        { type: 'evict', key: 'GET:/c:', reason: 'expired' },
+      ]);
+      expect(bounded.getStats()).toMatchObject({ evictions: 2, entries: 1 });
+    });
+
+    it('should not count explicit invalidation as eviction', () => {
+      cache.set(url, 'GET', { id: 1 });
+      cache.invalidate(url, 'GET');
+      cache.clear();
+
+      expect(cache.getStats().evictions).toBe(0);
+    });
+
+    it('should count revalidations', () => {
+      const listener = jest.fn();
+      cache.on('revalidate', listener);
+
+      cache.recordRevalidation('GET:/products:');
+
+      expect(cache.getStats().revalidations).toBe(1);
+      expect(listener).toHaveBeenCalledWith({ type: 'revalidate', key: 'GET:/products:' });
+    });
+
+    it('should reset counters but keep entries', () => {
+      cache.set(url, 'GET', { id: 1 });
+      cache.get(url, 'GET');
+
+      cache.resetStats();
+
+      expect(cache.getStats()).toMatchObject({ hits: 0, misses: 0, entries: 1 });
+    });
+  });
+
+  describe('Snapshots', () => {
+    it('should restore entries with their etags and remaining TTL', () => {
+      const timestamp = Date.now() - 60000;
+      cache.setEntry('GET:/products:', {
+        data: [{ id: 1 }],
+        timestamp,
+        ttl: 120000,
+        etag: '"v1"',
+        tags: ['catalog'],
+      });
+
+      const snapshot = JSON.parse(JSON.stringify(cache.exportSnapshot()));
+      const restored = new MemoryCache(defaultTTL);
+
+      expect(restored.importSnapshot(snapshot)).toBe(1);
+      expect(restored.getEntry('GET:/products:')).toMatchObject({
+        data: [{ id: 1 }],
+        timestamp,
+        ttl: 120000,
+        etag: '"v1"',
+        tags: ['catalog'],
+      });
+    });
+
+    it('should keep recency order across a round trip', () => {
+      cache.set('/a', 'GET', 'a');
+      cache.set('/b', 'GET', 'b');
+      cache.get('/a', 'GET');
+
+      const restored = new MemoryCache(defaultTTL, { maxEntries: 2 });
+      restored.importSnapshot(cache.exportSnapshot());
+      restored.set('/c', 'GET', 'c');
+
+      expect(restored.get('/b', 'GET')).toBeNull();
+      expect(restored.get('/a', 'GET')).toBe('a');
+    });
+
+    it('should drop expired entries', () => {
+      const snapshot = {
+        version: 1,
+        createdAt: Date.now(),
+        entries: [
+          { key: 'GET:/old:', entry: { data: 'old', timestamp: Date.now() - 2000, ttl: 1000 } },
+          { key: 'GET:/new:', entry: { data: 'new', timestamp: Date.now(), ttl: 1000 } },
+        ],
+      };
+
+      expect(cache.importSnapshot(snapshot)).toBe(1);
+      expect(cache.size).toBe(1);
+    });
+
+    it('should drop snapshots of another version', () => {
+      cache.set('/products', 'GET', []);
+      const snapshot = { ...cache.exportSnapshot(), version: 0 };
+
+      expect(new MemoryCache().importSnapshot(snapshot)).toBe(0);
+    });
+
+    it('should not replace newer entries', () => {
+      cache.setEntry('GET:/products:', { data: 'old', timestamp: Date.now() - 1000, ttl: 60000 });
+      const snapshot = cache.exportSnapshot();
+      cache.setEntry('GET:/products:', { data: 'new', timestamp: Date.now(), ttl: 60000 });
+
+      expect(cache.importSnapshot(snapshot)).toBe(0);
+      expect(cache.getEntry('GET:/products:')).toMatchObject({ data: 'new' });
+    });
+  });
+
+  describe('Sweeper', () => {
+    afterEach(() => {
+      cache.stopSweeper();
+      jest.useRealTimers();
+    });
+
+    it('should remove expired entries on every tick', () => {
+      jest.useFakeTimers();
+      const events: CacheEvent[] = [];
+      cache.on('evict', (event: CacheEvent) => events.push(event));
+      cache.set('/short', 'GET', 'short', undefined, 500);
+      cache.set('/long', 'GET', 'long');
+
+      cache.startSweeper(1000);
+      jest.advanceTimersByTime(1000);
+
+      expect(cache.size).toBe(1);
+      expect(events).toEqual([{ type: 'evict', key: 'GET:/short:', reason: 'expired' }]);
+    });
+
+    it('should stop sweeping once stopped', () => {
+      jest.useFakeTimers();
+      cache.set('/short', 'GET', 'short', undefined, 500);
+
+      cache.startSweeper(1000);
+      cache.stopSweeper();
+      jest.advanceTimersByTime(1000);
+
+      expect(cache.size).toBe(1);
+    });
+
+    it('should not keep the process alive', () => {
+      cache.startSweeper(60000);
+
+      expect(cache['sweeper']?.hasRef()).toBe(false);
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle undefined parameters', () => {
       const testData = { id: 1, name: 'test' };
@@ -195,3 +533,58 @@ describe('MemoryCache', () => {
     });
   });
 });
+
+describe('MemoryCacheStore', () => {
+  const key = MemoryCache.keyFor('/products', 'GET', { page: 1 });
+  const entry = (ttl: number) => ({ data: { id: 1 }, timestamp: Date.now(), ttl, etag: '"v1"' });
+
+  it('should build keys in the MemoryCache format', () => {
+    const cache = new MemoryCache();
+    cache.set('/products', 'GET', { id: 1 }, { page: 1 });
+
+    expect(cache.getEntry(key)).toMatchObject({ data: { id: 1 } });
+  });
+
+  it('should store and return entries', async () => {
+    const store = new MemoryCacheStore();
+
+    await store.set(key, entry(1000));
+
+    await expect(store.get(key)).resolves.toMatchObject({ data: { id: 1 }, etag: '"v1"' });
+  });
+
+  it('should miss expired entries', async () => {
+    const store = new MemoryCacheStore();
+
+    await store.set(key, { ...entry(1000), timestamp: Date.now() - 2000 });
+
+    await expect(store.get(key)).resolves.toBeNull();
+  });
+
+  it('should invalidate by prefix and tag in the wrapped cache', async () => {
+    const cache = new MemoryCache();
+    const store = new MemoryCacheStore(cache);
+    await store.set(key, { ...entry(1000), tags: ['product:1'] });
+    await store.set('GET:/orders:', entry(1000));
+    await store.set('GET:/customers:', entry(1000));
+
+    await store.invalidateTag('product:1');
+    await store.invalidatePrefix('GET:/orders');
+
+    expect(cache.size).toBe(1);
+    await expect(store.get('GET:/customers:')).resolves.not.toBeNull();
+  });
+
+  it('should delete and clear entries in the wrapped cache', async () => {
+    const cache = new MemoryCache();
+    const store = new MemoryCacheStore(cache);
+    await store.set(key, entry(1000));
+    await store.set('other', entry(1000));
+
+    await store.delete(key);
+    expect(cache.size).toBe(1);
+
+    await store.clear();
+    expect(cache.size).toBe(0);
+  });
+});
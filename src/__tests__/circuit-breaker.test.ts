@@ -0,0 +1,188 @@
+import { CircuitBreaker } from '@/circuit-breaker';
+import { TanqoryError } from '@/errors';
+
+describe('CircuitBreaker', () => {
+  const key = 'GET /products/:id';
+  const serverError = () => new TanqoryError('Service Unavailable', 503, 'SERVICE_UNAVAILABLE');
+
+  let breaker: CircuitBreaker;
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    breaker = new CircuitBreaker(3, 10000);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const fail = (error: unknown = serverError()): Promise<TanqoryError> =>
+    breaker.execute(key, () => Promise.reject(error)).catch((e: TanqoryError) => e);
+
+  describe('keyFor', () => {
+    it('should collapse identifier segments into a route pattern', () => {
+      expect(CircuitBreaker.keyFor('get', '/products/123')).toBe('GET /products/:id');
+      expect(
+        CircuitBreaker.keyFor('PUT', '/orders/3f2b8c1e-1d2a-4b3c-9d8e-0123456789ab/items')
+      ).toBe('PUT /orders/:id/items');
+      expect(CircuitBreaker.keyFor('GET', '/products/64b7f0c2a1e4d3b2c1a09876')).toBe(
+        'GET /products/:id'
+      );
+    });
+
+    it('should ignore query strings and origins', () => {
+      expect(CircuitBreaker.keyFor('GET', 'https://api.test.com/products?page=2')).toBe(
+        'GET /products'
+      );
+      expect(CircuitBreaker.keyFor('GET', 'https://api.test.com')).toBe('GET /');
+    });
+
+    it('should keep named segments', () => {
+      expect(CircuitBreaker.keyFor('GET', '/products/featured')).toBe('GET /products/featured');
+    });
+  });
+
+  describe('State transitions', () => {
+    it('should start closed', () => {
+      expect(breaker.getState(key)).toEqual({ key, state: 'closed', failures: 0 });
+    });
+
+    it('should open after consecutive retryable failures', async () => {
+      await fail();
+      await fail();
+      expect(breaker.getState(key).state).toBe('closed');
+
+      await fail();
+      expect(breaker.getState(key)).toEqual({
+        key,
+        state: 'open',
+        failures: 3,
+        openedAt: now,
+      });
+    });
+
+    it('should fail fast with CIRCUIT_OPEN while open', async () => {
+      await fail();
+      await fail();
+      await fail();
+
+      const fn = jest.fn().mockResolvedValue('ok');
+      const error = await fail();
+
+      expect(fn).not.toHaveBeenCalled();
+      expect(error).toBeInstanceOf(TanqoryError);
+      expect(error.code).toBe('CIRCUIT_OPEN');
+      expect(error.isRetryable()).toBe(false);
+      await expect(breaker.execute(key, fn)).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' });
+    });
+
+    it('should not count non-retryable errors', async () => {
+      await fail();
+      await fail();
+      await fail(new TanqoryError('Not Found', 404, 'NOT_FOUND'));
+      await fail();
+
+      expect(breaker.getState(key)).toMatchObject({ state: 'closed', failures: 1 });
+    });
+
+    it('should leave the failure count alone for requests without a response', async () => {
+      await fail();
+      await fail();
+      await fail(new TanqoryError('No response received from server', undefined, 'NETWORK_ERROR'));
+      await fail(TanqoryError.aborted());
+
+      expect(breaker.getState(key)).toMatchObject({ state: 'closed', failures: 2 });
+    });
+
+    it('should reset the failure count on success', async () => {
+      await fail();
+      await fail();
+      await breaker.execute(key, () => Promise.resolve('ok'));
+
+      expect(breaker.getState(key)).toMatchObject({ state: 'closed', failures: 0 });
+    });
+
+    it('should rethrow the original error', async () => {
+      const original = serverError();
+      await expect(breaker.execute(key, () => Promise.reject(original))).rejects.toBe(original);
+    });
+
+    it('should keep circuits isolated per key', async () => {
+      await fail();
+      await fail();
+      await fail();
+
+      await expect(breaker.execute('GET /categories', () => Promise.resolve('ok'))).resolves.toBe(
+        'ok'
+      );
+    });
+  });
+
+  describe('Half-open', () => {
+    beforeEach(async () => {
+      await fail();
+      await fail();
+      await fail();
+      now += 10000;
+    });
+
+    it('should report half-open once the cooldown has elapsed', () => {
+      expect(breaker.getState(key).state).toBe('half-open');
+    });
+
+    it('should close after a successful probe', async () => {
+      await expect(breaker.execute(key, () => Promise.resolve('ok'))).resolves.toBe('ok');
+      expect(breaker.getState(key)).toMatchObject({ state: 'closed', failures: 0 });
+    });
+
+    it('should reopen after a failed probe', async () => {
+      await fail();
+      expect(breaker.getState(key)).toMatchObject({ state: 'open', openedAt: now });
+    });
+
+    it('should stay half-open after a probe that timed out', async () => {
+      await fail(new TanqoryError('No response received from server', undefined, 'NETWORK_ERROR'));
+
+      expect(breaker.getState(key)).toMatchObject({ state: 'half-open', failures: 3 });
+      await expect(breaker.execute(key, () => Promise.resolve('ok'))).resolves.toBe('ok');
+    });
+
+    it('should stay half-open after an aborted probe', async () => {
+      await fail(TanqoryError.aborted());
+
+      expect(breaker.getState(key)).toMatchObject({ state: 'half-open', failures: 3 });
+      await fail();
+      expect(breaker.getState(key).state).toBe('open');
+    });
+
+    it('should admit a single probe at a time', async () => {
+      let resolveProbe: (value: string) => void = () => undefined;
+      const probe = breaker.execute(
+        key,
+        () => new Promise<string>((resolve) => (resolveProbe = resolve))
+      );
+
+      await expect(breaker.execute(key, () => Promise.resolve('ok'))).rejects.toMatchObject({
+        code: 'CIRCUIT_OPEN',
+      });
+
+      resolveProbe('ok');
+      await expect(probe).resolves.toBe('ok');
+    });
+  });
+
+  describe('reset', () => {
+    it('should reset a single circuit or all circuits', async () => {
+      await breaker.execute('GET /a', () => Promise.resolve('ok'));
+      await breaker.execute('GET /b', () => Promise.resolve('ok'));
+
+      breaker.reset('GET /a');
+      expect(breaker.getStates().map((s) => s.key)).toEqual(['GET /b']);
+
+      breaker.reset();
+      expect(breaker.getStates()).toEqual([]);
+    });
+  });
+});
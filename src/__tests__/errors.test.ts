@@ -58,6 +58,21 @@ describe('TanqoryError', () => {
       });
     });
 
+    it('should keep response headers from axios errors', () => {
+      const axiosError = {
+        response: {
+          data: {},
+          status: 429,
+          statusText: 'Too Many Requests',
+          headers: { 'retry-after': '5' },
+        },
+      };
+
+      const error = TanqoryError.fromAxiosError(axiosError);
+
+      expect(error.response?.headers).toEqual({ 'retry-after': '5' });
+    });
+
     it('should handle axios error without response data message', () => {
       const axiosError = {
         response: {
@@ -87,6 +102,20 @@ describe('TanqoryError', () => {
       expect(error.code).toBe('NETWORK_ERROR');
     });
 
+    it('should map axios cancellations to ABORTED', () => {
+      const axiosError = {
+        code: 'ERR_CANCELED',
+        name: 'CanceledError',
+        message: 'canceled',
+        request: {},
+      };
+
+      const error = TanqoryError.fromAxiosError(axiosError);
+
+      expect(error.code).toBe('ABORTED');
+      expect(error.status).toBeUndefined();
+    });
+
     it('should handle axios setup error', () => {
       const axiosError = {
         message: 'Request setup failed',
@@ -209,6 +238,21 @@ describe('TanqoryError', () => {
         expect(error500.isRateLimited()).toBeFalsy();
       });
     });
+
+    describe('isAborted', () => {
+      it('should return true for aborted requests', () => {
+        const error = TanqoryError.aborted();
+
+        expect(error.isAborted()).toBeTruthy();
+        expect(error.code).toBe('ABORTED');
+        expect(error.message).toBe('Request aborted');
+        expect(error.isRetryable()).toBeFalsy();
+      });
+
+      it('should return false for other errors', () => {
+        expect(new TanqoryError('Server error', 500).isAborted()).toBeFalsy();
+      });
+    });
   });
 
   describe('Error Chain', () => {
@@ -0,0 +1,121 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileCacheStore } from '@/file-cache-store';
+import { CacheEntry } from '@/types';
+
+describe('FileCacheStore', () => {
+  const key = 'GET:/products:{"page":1}';
+  let directory: string;
+  let store: FileCacheStore;
+
+  const entry = (overrides: Partial<CacheEntry> = {}): CacheEntry => ({
+    data: { items: [{ id: 1 }] },
+    timestamp: Date.now(),
+    ttl: 60000,
+    etag: '"v1"',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'tanqory-cache-'));
+    store = new FileCacheStore(join(directory, 'cache'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should return null for unknown keys', async () => {
+    await expect(store.get(key)).resolves.toBeNull();
+  });
+
+  it('should persist entries across store instances', async () => {
+    await store.set(key, entry());
+
+    const other = new FileCacheStore(join(directory, 'cache'));
+
+    await expect(other.get(key)).resolves.toEqual(entry({ timestamp: expect.any(Number) }));
+  });
+
+  it('should write one hashed file per key without temporary leftovers', async () => {
+    await store.set(key, entry());
+    await store.set(key, entry({ etag: '"v2"' }));
+
+    const files = await fs.readdir(join(directory, 'cache'));
+
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^[0-9a-f]{64}\.json$/);
+    await expect(store.get(key)).resolves.toMatchObject({ etag: '"v2"' });
+  });
+
+  it('should only let the owner read cache files', async () => {
+    await store.set(key, entry());
+
+    const [file] = await fs.readdir(join(directory, 'cache'));
+    const { mode: directoryMode } = await fs.stat(join(directory, 'cache'));
+    const { mode: fileMode } = await fs.stat(join(directory, 'cache', file));
+    expect(directoryMode & 0o777).toBe(0o700);
+    expect(fileMode & 0o777).toBe(0o600);
+  });
+
+  it('should remove expired entries on read', async () => {
+    await store.set(key, entry({ timestamp: Date.now() - 120000 }));
+
+    await expect(store.get(key)).resolves.toBeNull();
+    await expect(fs.readdir(join(directory, 'cache'))).resolves.toEqual([]);
+  });
+
+  it('should treat corrupt files as misses', async () => {
+    await store.set(key, entry());
+    const [file] = await fs.readdir(join(directory, 'cache'));
+    await fs.writeFile(join(directory, 'cache', file), '{"key":');
+
+    await expect(store.get(key)).resolves.toBeNull();
+  });
+
+  it('should delete single entries', async () => {
+    await store.set(key, entry());
+    await store.set('GET:/orders:', entry());
+
+    await store.delete(key);
+
+    await expect(store.get(key)).resolves.toBeNull();
+    await expect(store.get('GET:/orders:')).resolves.not.toBeNull();
+  });
+
+  it('should invalidate entries by key prefix', async () => {
+    await store.set(key, entry());
+    await store.set('GET:/products/1:', entry());
+    await store.set('GET:/orders:', entry());
+
+    await store.invalidatePrefix('GET:/products');
+
+    await expect(store.get(key)).resolves.toBeNull();
+    await expect(store.get('GET:/products/1:')).resolves.toBeNull();
+    await expect(store.get('GET:/orders:')).resolves.not.toBeNull();
+  });
+
+  it('should invalidate entries by tag', async () => {
+    await store.set(key, entry({ tags: ['product:1'] }));
+    await store.set('GET:/orders:', entry({ tags: ['order:1'] }));
+
+    await store.invalidateTag('product:1');
+
+    await expect(store.get(key)).resolves.toBeNull();
+    await expect(store.get('GET:/orders:')).resolves.not.toBeNull();
+  });
+
+  it('should clear only cache files', async () => {
+    await store.set(key, entry());
+    await fs.writeFile(join(directory, 'cache', 'README.txt'), 'keep me');
+
+    await store.clear();
+
+    await expect(fs.readdir(join(directory, 'cache'))).resolves.toEqual(['README.txt']);
+  });
+
+  it('should ignore clearing a directory that does not exist', async () => {
+    await expect(new FileCacheStore(join(directory, 'missing')).clear()).resolves.toBeUndefined();
+  });
+});
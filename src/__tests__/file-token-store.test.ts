@@ -0,0 +1,148 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileTokenStore } from '@/file-token-store';
+import { TokenData } from '@/types';
+
+describe('FileTokenStore', () => {
+  const tokenData: TokenData = {
+    accessToken: 'access-token',
+    refreshToken: 'refresh-token',
+    expiresAt: 1700000000,
+    tokenType: 'Bearer',
+  };
+  let directory: string;
+  let filePath: string;
+  let store: FileTokenStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'tanqory-token-'));
+    filePath = join(directory, 'session', 'token.json');
+    store = new FileTokenStore(filePath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should return null before a token is saved', async () => {
+    await expect(store.load()).resolves.toBeNull();
+  });
+
+  it('should persist the token across store instances', async () => {
+    await store.save(tokenData);
+
+    await expect(new FileTokenStore(filePath).load()).resolves.toEqual(tokenData);
+  });
+
+  it('should only let the owner read the token file', async () => {
+    await store.save(tokenData);
+
+    const { mode } = await fs.stat(filePath);
+    expect(mode & 0o777).toBe(0o600);
+  });
+
+  it('should replace the file without temporary leftovers', async () => {
+    await store.save(tokenData);
+    await store.save({ ...tokenData, accessToken: 'rotated-token' });
+
+    await expect(fs.readdir(join(directory, 'session'))).resolves.toEqual(['token.json']);
+    await expect(store.load()).resolves.toMatchObject({ accessToken: 'rotated-token' });
+  });
+
+  it('should treat corrupt files as empty', async () => {
+    await store.save(tokenData);
+    await fs.writeFile(filePath, '{"accessToken":');
+
+    await expect(store.load()).resolves.toBeNull();
+
+    await fs.writeFile(filePath, '{"refreshToken":"only"}');
+    await expect(store.load()).resolves.toBeNull();
+  });
+
+  it('should surface read errors other than a missing file', async () => {
+    await fs.mkdir(filePath, { recursive: true });
+
+    await expect(store.load()).rejects.toMatchObject({ code: 'EISDIR' });
+  });
+
+  it('should remove the file on clear', async () => {
+    await store.save(tokenData);
+
+    await store.clear();
+    await store.clear();
+
+    await expect(store.load()).resolves.toBeNull();
+  });
+
+  describe('Encryption', () => {
+    const encryptionKey = Buffer.alloc(32, 7);
+
+    it('should keep the token encrypted on disk', async () => {
+      const encrypted = new FileTokenStore(filePath, { encryptionKey });
+
+      await encrypted.save(tokenData);
+
+      const contents = await fs.readFile(filePath, 'utf8');
+      expect(contents).not.toContain('access-token');
+      expect(contents).not.toContain('refresh-token');
+      await expect(new FileTokenStore(filePath, { encryptionKey }).load()).resolves.toEqual(
+        tokenData
+      );
+    });
+
+    it('should derive the key from a passphrase', async () => {
+      await new FileTokenStore(filePath, { passphrase: 'correct horse' }).save(tokenData);
+
+      await expect(
+        new FileTokenStore(filePath, { passphrase: 'correct horse' }).load()
+      ).resolves.toEqual(tokenData);
+    });
+
+    it('should clear a tampered token instead of returning it', async () => {
+      const encrypted = new FileTokenStore(filePath, { encryptionKey });
+      await encrypted.save(tokenData);
+      const file = JSON.parse(await fs.readFile(filePath, 'utf8'));
+      const data = Buffer.from(file.data, 'base64');
+      data[0] ^= 1;
+      await fs.writeFile(filePath, JSON.stringify({ ...file, data: data.toString('base64') }));
+
+      await expect(encrypted.load()).rejects.toMatchObject({
+        name: 'TanqoryError',
+        code: 'TOKEN_INTEGRITY_ERROR',
+      });
+      await expect(fs.stat(filePath)).rejects.toMatchObject({ code: 'ENOENT' });
+    });
+
+    it('should clear a token whose authentication tag was shortened', async () => {
+      const encrypted = new FileTokenStore(filePath, { encryptionKey });
+      await encrypted.save(tokenData);
+      const file = JSON.parse(await fs.readFile(filePath, 'utf8'));
+      const tag = Buffer.from(file.tag, 'base64').subarray(0, 4).toString('base64');
+      await fs.writeFile(filePath, JSON.stringify({ ...file, tag }));
+
+      await expect(encrypted.load()).rejects.toMatchObject({ code: 'TOKEN_INTEGRITY_ERROR' });
+      await expect(fs.stat(filePath)).rejects.toMatchObject({ code: 'ENOENT' });
+    });
+
+    it('should clear tokens written under another passphrase or in plain text', async () => {
+      const encrypted = new FileTokenStore(filePath, { passphrase: 'correct horse' });
+
+      await new FileTokenStore(filePath, { passphrase: 'wrong horse' }).save(tokenData);
+      await expect(encrypted.load()).rejects.toMatchObject({ code: 'TOKEN_INTEGRITY_ERROR' });
+
+      await store.save(tokenData);
+      await expect(encrypted.load()).rejects.toMatchObject({ code: 'TOKEN_INTEGRITY_ERROR' });
+      await expect(encrypted.load()).resolves.toBeNull();
+    });
+
+    it('should reject keys that are not 32 bytes', () => {
+      expect(() => new FileTokenStore(filePath, { encryptionKey: Buffer.alloc(16) })).toThrow(
+        'encryptionKey must be 32 bytes'
+      );
+      expect(
+        () => new FileTokenStore(filePath, { encryptionKey, passphrase: 'correct horse' })
+      ).toThrow('not both');
+    });
+  });
+});
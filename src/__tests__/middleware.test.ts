@@ -0,0 +1,149 @@
+import { MiddlewarePipeline } from '@/middleware';
+import { TanqoryError } from '@/errors';
+import { ApiResponse, Middleware, MiddlewareContext } from '@/types';
+
+describe('MiddlewarePipeline', () => {
+  const okResponse: ApiResponse = {
+    data: { ok: true },
+    status: 200,
+    statusText: 'OK',
+    headers: {},
+  };
+
+  let context: MiddlewareContext;
+  let handler: jest.Mock;
+
+  beforeEach(() => {
+    context = { request: { url: '/products', method: 'GET', headers: {} }, attempt: 0 };
+    handler = jest.fn().mockResolvedValue(okResponse);
+  });
+
+  const tracer =
+    (name: string, calls: string[]): Middleware =>
+    async (_context, next) => {
+      calls.push(`${name}:before`);
+      const response = await next();
+      calls.push(`${name}:after`);
+      return response;
+    };
+
+  describe('Ordering', () => {
+    it('should call the handler when there are no middlewares', async () => {
+      const pipeline = new MiddlewarePipeline();
+
+      await expect(pipeline.execute(context, handler)).resolves.toBe(okResponse);
+      expect(handler).toHaveBeenCalledWith(context);
+    });
+
+    it('should run registered middlewares in order before built-ins', async () => {
+      const calls: string[] = [];
+      const pipeline = new MiddlewarePipeline([tracer('builtin', calls)]);
+      pipeline.use(tracer('first', calls));
+      pipeline.use(tracer('second', calls));
+
+      await pipeline.execute(context, handler);
+
+      expect(calls).toEqual([
+        'first:before',
+        'second:before',
+        'builtin:before',
+        'builtin:after',
+        'second:after',
+        'first:after',
+      ]);
+    });
+  });
+
+  describe('Context', () => {
+    it('should let middlewares change the request', async () => {
+      const pipeline = new MiddlewarePipeline();
+      pipeline.use((ctx, next) => {
+        ctx.request.headers = { ...ctx.request.headers, 'X-Trace-Id': 'abc' };
+        return next();
+      });
+
+      await pipeline.execute(context, handler);
+
+      expect(handler.mock.calls[0][0].request.headers).toEqual({ 'X-Trace-Id': 'abc' });
+    });
+
+    it('should let middlewares short-circuit the request', async () => {
+      const pipeline = new MiddlewarePipeline();
+      const stubbed = { ...okResponse, data: { stubbed: true } };
+      pipeline.use(async () => stubbed);
+
+      await expect(pipeline.execute(context, handler)).resolves.toBe(stubbed);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should let middlewares post-process the response', async () => {
+      const pipeline = new MiddlewarePipeline();
+      pipeline.use(async (_ctx, next) => {
+        const response = await next();
+        return { ...response, data: { wrapped: response.data } };
+      });
+
+      const response = await pipeline.execute(context, handler);
+
+      expect(response.data).toEqual({ wrapped: { ok: true } });
+    });
+
+    it('should record the response on the context', async () => {
+      const pipeline = new MiddlewarePipeline();
+      let seen: ApiResponse | undefined;
+      pipeline.use(async (ctx, next) => {
+        await next();
+        seen = ctx.response;
+        return ctx.response as ApiResponse;
+      });
+
+      await pipeline.execute(context, handler);
+
+      expect(seen).toBe(okResponse);
+      expect(context.response).toBe(okResponse);
+    });
+  });
+
+  describe('Errors', () => {
+    it('should record TanqoryError failures on the context', async () => {
+      const pipeline = new MiddlewarePipeline();
+      const error = new TanqoryError('Bad Gateway', 502, 'BAD_GATEWAY');
+      handler.mockRejectedValue(error);
+      let seen: TanqoryError | undefined;
+      pipeline.use(async (ctx, next) => {
+        try {
+          return await next();
+        } catch (e) {
+          seen = ctx.error;
+          throw e;
+        }
+      });
+
+      await expect(pipeline.execute(context, handler)).rejects.toBe(error);
+      expect(seen).toBe(error);
+    });
+
+    it('should convert other errors into TanqoryError', async () => {
+      const pipeline = new MiddlewarePipeline();
+      pipeline.use(() => Promise.reject(new Error('middleware exploded')));
+
+      await expect(pipeline.execute(context, handler)).rejects.toMatchObject({
+        name: 'TanqoryError',
+        message: 'middleware exploded',
+      });
+    });
+
+    it('should reject when next() is called more than once', async () => {
+      const pipeline = new MiddlewarePipeline();
+      pipeline.use(async (_ctx, next) => {
+        await next();
+        return next();
+      });
+
+      await expect(pipeline.execute(context, handler)).rejects.toMatchObject({
+        code: 'MIDDLEWARE_ERROR',
+      });
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { Paginator } from '@/paginator';
+import { ApiResponse, RequestConfig } from '@/types';
+
+describe('Paginator', () => {
+  const respond = (data: unknown, headers: Record<string, string> = {}): ApiResponse => ({
+    data,
+    status: 200,
+    statusText: 'OK',
+    headers,
+  });
+
+  describe('parseNextLink', () => {
+    it('should extract the next link', () => {
+      const header =
+        '<https://api.test.com/products?page=1>; rel="prev", <https://api.test.com/products?page=3>; rel="next"';
+
+      expect(Paginator.parseNextLink(header)).toBe('https://api.test.com/products?page=3');
+    });
+
+    it('should support multiple relation types', () => {
+      expect(Paginator.parseNextLink('</products?page=2>; rel="next last"')).toBe(
+        '/products?page=2'
+      );
+    });
+
+    it('should return null without a next link', () => {
+      expect(Paginator.parseNextLink('</products?page=1>; rel="prev"')).toBeNull();
+      expect(Paginator.parseNextLink(undefined)).toBeNull();
+    });
+  });
+
+  describe('Page strategy', () => {
+    it('should request pages until a short page is returned', async () => {
+      const fetchPage = jest
+        .fn()
+        .mockResolvedValueOnce(respond([1, 2]))
+        .mockResolvedValueOnce(respond([3, 4]))
+        .mockResolvedValueOnce(respond([5]));
+
+      const items = await new Paginator<number>(fetchPage, '/products', {
+        pageSize: 2,
+        params: { status: 'active' },
+      }).toArray();
+
+      expect(items).toEqual([1, 2, 3, 4, 5]);
+      expect(fetchPage).toHaveBeenCalledTimes(3);
+      expect(fetchPage.mock.calls.map(([config]: [RequestConfig]) => config.params)).toEqual([
+        { status: 'active', limit: 2, page: 1 },
+        { status: 'active', limit: 2, page: 2 },
+        { status: 'active', limit: 2, page: 3 },
+      ]);
+    });
+
+    it('should stop on an empty page when no page size is given', async () => {
+      const fetchPage = jest
+        .fn()
+        .mockResolvedValueOnce(respond({ data: ['a', 'b', 'c'] }))
+        .mockResolvedValueOnce(respond({ data: [] }));
+
+      const items = await new Paginator<string>(fetchPage, '/products').toArray();
+
+      expect(items).toEqual(['a', 'b', 'c']);
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should honour custom parameter names and start page', async () => {
+      const fetchPage = jest.fn().mockResolvedValue(respond({ items: [] }));
+
+      await new Paginator(fetchPage, '/products', {
+        pageSize: 25,
+        pageParam: 'p',
+        limitParam: 'per_page',
+        startPage: 0,
+      }).toArray();
+
+      expect(fetchPage.mock.calls[0][0]).toMatchObject({
+        url: '/products',
+        method: 'GET',
+        params: { p: 0, per_page: 25 },
+      });
+    });
+  });
+
+  describe('Cursor strategy', () => {
+    it('should follow cursors until none is returned', async () => {
+      const fetchPage = jest
+        .fn()
+        .mockResolvedValueOnce(respond({ data: [1, 2], next_cursor: 'abc' }))
+        .mockResolvedValueOnce(respond({ data: [3], nextCursor: 'def' }))
+        .mockResolvedValueOnce(respond({ data: [4], meta: { next_cursor: null } }));
+
+      const items = await new Paginator<number>(fetchPage, '/orders', {
+        strategy: 'cursor',
+      }).toArray();
+
+      expect(items).toEqual([1, 2, 3, 4]);
+      expect(fetchPage.mock.calls[0][0].params).toEqual({});
+      expect(fetchPage.mock.calls[1][0].params).toEqual({ cursor: 'abc' });
+      expect(fetchPage.mock.calls[2][0].params).toEqual({ cursor: 'def' });
+    });
+
+    it('should support custom extractors', async () => {
+      const fetchPage = jest
+        .fn()
+        .mockResolvedValueOnce(respond({ results: ['x'], paging: { after: 'n1' } }))
+        .mockResolvedValueOnce(respond({ results: ['y'], paging: {} }));
+
+      const items = await new Paginator<string>(fetchPage, '/orders', {
+        strategy: 'cursor',
+        cursorParam: 'after',
+        getItems: (data) => (data as { results: string[] }).results,
+        getNextCursor: (data) => (data as { paging: { after?: string } }).paging.after,
+      }).toArray();
+
+      expect(items).toEqual(['x', 'y']);
+      expect(fetchPage.mock.calls[1][0].params).toEqual({ after: 'n1' });
+    });
+  });
+
+  describe('Link strategy', () => {
+    it('should follow the Link header', async () => {
+      const fetchPage = jest
+        .fn()
+        .mockResolvedValueOnce(respond([1], { link: '</products?page=2>; rel="next"' }))
+        .mockResolvedValueOnce(respond([2], { Link: '</products?page=1>; rel="prev"' }));
+
+      const items = await new Paginator<number>(fetchPage, '/products', {
+        strategy: 'link',
+        pageSize: 1,
+      }).toArray();
+
+      expect(items).toEqual([1, 2]);
+      expect(fetchPage.mock.calls[0][0]).toMatchObject({ url: '/products', params: { limit: 1 } });
+      expect(fetchPage.mock.calls[1][0]).toMatchObject({ url: '/products?page=2' });
+      expect(fetchPage.mock.calls[1][0].params).toBeUndefined();
+    });
+  });
+
+  describe('Limits', () => {
+    it('should stop at maxItems without fetching further pages', async () => {
+      const fetchPage = jest.fn().mockResolvedValue(respond([1, 2, 3]));
+
+      const items = await new Paginator<number>(fetchPage, '/products', {
+        pageSize: 3,
+        maxItems: 4,
+      }).toArray();
+
+      expect(items).toEqual([1, 2, 3, 1]);
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fetch pages lazily while iterating', async () => {
+      const fetchPage = jest.fn().mockResolvedValue(respond([1, 2]));
+      const iterator = new Paginator<number>(fetchPage, '/products', { pageSize: 2 })[
+        Symbol.asyncIterator
+      ]();
+
+      await iterator.next();
+      await iterator.next();
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+
+      await iterator.next();
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should propagate request errors', async () => {
+      const fetchPage = jest.fn().mockRejectedValue(new Error('boom'));
+
+      await expect(new Paginator(fetchPage, '/products').toArray()).rejects.toThrow('boom');
+    });
+  });
+});
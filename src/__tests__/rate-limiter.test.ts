@@ -0,0 +1,171 @@
+import { RateLimiter } from '@/rate-limiter';
+
+describe('RateLimiter', () => {
+  const key = 'store-1';
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    limiter = new RateLimiter();
+  });
+
+  afterEach(() => {
+    limiter.reset();
+    jest.useRealTimers();
+  });
+
+  const headers = (limit: number, remaining: number, reset: number) => ({
+    'x-ratelimit-limit': String(limit),
+    'x-ratelimit-remaining': String(remaining),
+    'x-ratelimit-reset': String(reset),
+  });
+
+  const settled = async (promise: Promise<void>) => {
+    let done = false;
+    promise.then(
+      () => (done = true),
+      () => undefined
+    );
+    await Promise.resolve();
+    await Promise.resolve();
+    return done;
+  };
+
+  describe('Budget tracking', () => {
+    it('should let requests through before any budget is known', async () => {
+      await expect(limiter.acquire(key)).resolves.toBeUndefined();
+      expect(limiter.getState(key)).toBeNull();
+    });
+
+    it('should read budget from rate-limit headers', () => {
+      limiter.update(key, headers(100, 42, 30));
+
+      expect(limiter.getState(key)).toEqual({
+        key,
+        limit: 100,
+        remaining: 42,
+        resetAt: Date.now() + 30000,
+        queued: 0,
+      });
+    });
+
+    it('should accept reset headers as epoch seconds', () => {
+      const resetEpoch = Math.floor(Date.now() / 1000) + 60;
+      limiter.update(key, headers(100, 0, resetEpoch));
+
+      expect(limiter.getState(key)?.resetAt).toBe(resetEpoch * 1000);
+    });
+
+    it('should ignore responses without rate-limit headers', () => {
+      limiter.update(key, { 'content-type': 'application/json' });
+      limiter.update(key, undefined);
+
+      expect(limiter.getState(key)).toBeNull();
+    });
+
+    it('should support custom header names', () => {
+      const custom = new RateLimiter({
+        limit: 'RateLimit-Limit',
+        remaining: 'RateLimit-Remaining',
+        reset: 'RateLimit-Reset',
+      });
+
+      custom.update(key, {
+        'ratelimit-limit': '10',
+        'ratelimit-remaining': '3',
+        'ratelimit-reset': '5',
+      });
+
+      expect(custom.getState(key)).toMatchObject({ limit: 10, remaining: 3 });
+    });
+
+    it('should consume budget for each acquired request', async () => {
+      limiter.update(key, headers(10, 2, 30));
+
+      await limiter.acquire(key);
+
+      expect(limiter.getState(key)?.remaining).toBe(1);
+    });
+  });
+
+  describe('Queueing', () => {
+    it('should queue requests once the budget is exhausted until reset', async () => {
+      limiter.update(key, headers(2, 1, 10));
+
+      const first = limiter.acquire(key);
+      const second = limiter.acquire(key);
+      const third = limiter.acquire(key);
+
+      expect(await settled(first)).toBe(true);
+      expect(await settled(second)).toBe(false);
+      expect(limiter.getState(key)?.queued).toBe(2);
+
+      jest.advanceTimersByTime(10000);
+
+      expect(await settled(second)).toBe(true);
+      expect(await settled(third)).toBe(true);
+      expect(limiter.getState(key)?.remaining).toBe(0);
+    });
+
+    it('should release queued requests when new budget is advertised', async () => {
+      limiter.update(key, headers(5, 0, 60));
+
+      const waiting = limiter.acquire(key);
+      expect(await settled(waiting)).toBe(false);
+
+      limiter.update(key, headers(5, 4, 60));
+
+      expect(await settled(waiting)).toBe(true);
+    });
+
+    it('should keep separate budgets per key', async () => {
+      limiter.update(key, headers(1, 0, 60));
+
+      expect(await settled(limiter.acquire('store-2'))).toBe(true);
+      expect(await settled(limiter.acquire(key))).toBe(false);
+    });
+
+    it('should reject queued requests when their signal aborts', async () => {
+      limiter.update(key, headers(1, 0, 60));
+      const controller = new AbortController();
+      const waiting = limiter.acquire(key, controller.signal);
+
+      controller.abort();
+
+      await expect(waiting).rejects.toMatchObject({ code: 'ABORTED' });
+      expect(limiter.getState(key)?.queued).toBe(0);
+    });
+
+    it('should keep the process alive only while requests are queued', async () => {
+      limiter.update(key, headers(1, 0, 2));
+      const controller = new AbortController();
+      const waiting = limiter.acquire(key, controller.signal);
+
+      expect(limiter['buckets'].get(key)?.timer?.hasRef()).toBe(true);
+
+      controller.abort();
+      await expect(waiting).rejects.toMatchObject({ code: 'ABORTED' });
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('should reject immediately for an already aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(limiter.acquire(key, controller.signal)).rejects.toMatchObject({
+        code: 'ABORTED',
+      });
+    });
+
+    it('should abort waiting requests on reset', async () => {
+      limiter.update(key, headers(1, 0, 60));
+      const waiting = limiter.acquire(key);
+
+      limiter.reset();
+
+      await expect(waiting).rejects.toMatchObject({ code: 'ABORTED' });
+      expect(limiter.getState(key)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { Readable } from 'stream';
+import { ResponseStream } from '@/response-stream';
+import { ApiResponse } from '@/types';
+
+describe('ResponseStream', () => {
+  const respond = (data: unknown): ApiResponse<unknown> => ({
+    data,
+    status: 200,
+    statusText: 'OK',
+    headers: {},
+  });
+
+  const streamOf = (...chunks: Array<string | Buffer>) => respond(Readable.from(chunks));
+
+  describe('NDJSON', () => {
+    it('should yield one record per line', async () => {
+      const open = jest.fn().mockResolvedValue(streamOf('{"id":1}\n{"id":2}\n\n{"id":3}\n'));
+
+      const records = await new ResponseStream<{ id: number }>(open).toArray();
+
+      expect(records).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    });
+
+    it('should join lines split across chunks', async () => {
+      const open = jest.fn().mockResolvedValue(streamOf('{"sku":"a', 'bc"}\r\n{"sku"', ':"def"}'));
+
+      const records = await new ResponseStream(open).toArray();
+
+      expect(records).toEqual([{ sku: 'abc' }, { sku: 'def' }]);
+    });
+
+    it('should decode multi-byte characters split across chunks', async () => {
+      const bytes = Buffer.from('{"name":"ร้าน"}\n');
+      const open = jest.fn().mockResolvedValue(streamOf(bytes.subarray(0, 11), bytes.subarray(11)));
+
+      await expect(new ResponseStream(open).toArray()).resolves.toEqual([{ name: 'ร้าน' }]);
+    });
+
+    it('should reject invalid lines with their line number', async () => {
+      const open = jest.fn().mockResolvedValue(streamOf('{"id":1}\nnot json\n'));
+
+      await expect(new ResponseStream(open).toArray()).rejects.toMatchObject({
+        name: 'TanqoryError',
+        code: 'PARSE_ERROR',
+        message: 'Invalid NDJSON on line 2',
+      });
+    });
+  });
+
+  describe('Raw chunks', () => {
+    it('should yield chunks as they arrive', async () => {
+      const open = jest.fn().mockResolvedValue(streamOf(Buffer.from('ab'), Buffer.from('cd')));
+
+      const chunks = await new ResponseStream<Buffer>(open, 'raw').toArray();
+
+      expect(Buffer.concat(chunks).toString()).toBe('abcd');
+    });
+  });
+
+  describe('Lifecycle', () => {
+    it('should not open the stream until iteration starts', async () => {
+      const open = jest.fn().mockResolvedValue(streamOf('{}\n'));
+      const stream = new ResponseStream(open);
+
+      expect(open).not.toHaveBeenCalled();
+      await stream.toArray();
+      expect(open).toHaveBeenCalledTimes(1);
+    });
+
+    it('should destroy the body when the consumer stops early', async () => {
+      const body = Readable.from(['{"id":1}\n', '{"id":2}\n', '{"id":3}\n']);
+      const stream = new ResponseStream<{ id: number }>(() => Promise.resolve(respond(body)));
+
+      for await (const record of stream) {
+        expect(record).toEqual({ id: 1 });
+        break;
+      }
+
+      expect(body.destroyed).toBe(true);
+    });
+
+    it('should map stream failures to TanqoryError', async () => {
+      const body = new Readable({
+        read() {
+          this.destroy(new Error('socket hang up'));
+        },
+      });
+
+      await expect(
+        new ResponseStream(() => Promise.resolve(respond(body))).toArray()
+      ).rejects.toMatchObject({
+        name: 'TanqoryError',
+        code: 'STREAM_ERROR',
+        message: 'socket hang up',
+      });
+    });
+
+    it('should reject bodies that are not streams', async () => {
+      const open = jest.fn().mockResolvedValue(respond({ id: 1 }));
+
+      await expect(new ResponseStream(open).toArray()).rejects.toMatchObject({
+        code: 'STREAM_ERROR',
+      });
+    });
+  });
+
+  describe('readAll', () => {
+    it('should parse JSON bodies', async () => {
+      await expect(
+        ResponseStream.readAll(Readable.from(['{"message":', '"Export failed"}']))
+      ).resolves.toEqual({ message: 'Export failed' });
+    });
+
+    it('should return other bodies as text', async () => {
+      await expect(ResponseStream.readAll(Readable.from(['Bad Gateway']))).resolves.toBe(
+        'Bad Gateway'
+      );
+    });
+  });
+});
@@ -117,6 +117,79 @@ describe('SecurityUtils', () => {
     });
   });
 
+  describe('Hashing', () => {
+    describe('hash', () => {
+      it('should produce a stable sha256 hex digest by default', () => {
+        const digest = SecurityUtils.hash('Bearer token-a');
+
+        expect(digest).toMatch(/^[a-f0-9]{64}$/);
+        expect(SecurityUtils.hash('Bearer token-a')).toBe(digest);
+      });
+
+      it('should produce different digests for different inputs', () => {
+        expect(SecurityUtils.hash('Bearer token-a')).not.toBe(SecurityUtils.hash('Bearer token-b'));
+      });
+
+      it('should support different algorithms', () => {
+        expect(SecurityUtils.hash('data', 'sha1')).toMatch(/^[a-f0-9]{40}$/);
+      });
+    });
+  });
+
+  describe('Encryption', () => {
+    const key = Buffer.alloc(32, 7);
+
+    it('should round-trip plaintext with a random IV', () => {
+      const first = SecurityUtils.encrypt('secret-token', key);
+      const second = SecurityUtils.encrypt('secret-token', key);
+
+      expect(first.iv).not.toBe(second.iv);
+      expect(first.data).not.toContain('secret-token');
+      expect(SecurityUtils.decrypt(first, key)).toBe('secret-token');
+    });
+
+    it('should reject modified ciphertext', () => {
+      const payload = SecurityUtils.encrypt('secret-token', key);
+      const data = Buffer.from(payload.data, 'base64');
+      data[0] ^= 1;
+
+      expect(() =>
+        SecurityUtils.decrypt({ ...payload, data: data.toString('base64') }, key)
+      ).toThrow();
+    });
+
+    it('should reject the wrong key', () => {
+      const payload = SecurityUtils.encrypt('secret-token', key);
+
+      expect(() => SecurityUtils.decrypt(payload, Buffer.alloc(32, 8))).toThrow();
+    });
+
+    it('should derive the same key from the same passphrase and salt', async () => {
+      const salt = Buffer.alloc(16, 1);
+      const derived = await SecurityUtils.deriveKey('correct horse', salt);
+
+      expect(derived).toHaveLength(32);
+      await expect(SecurityUtils.deriveKey('correct horse', salt)).resolves.toEqual(derived);
+      await expect(SecurityUtils.deriveKey('wrong horse', salt)).resolves.not.toEqual(derived);
+    });
+  });
+
+  describe('JWT', () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    it('should decode the claims of a JWT', () => {
+      const token = `${encode({ alg: 'HS256' })}.${encode({ sub: 'user-1', exp: 1700000000 })}.sig`;
+
+      expect(SecurityUtils.decodeJwt(token)).toEqual({ sub: 'user-1', exp: 1700000000 });
+    });
+
+    it('should return null for tokens that are not JWTs', () => {
+      expect(SecurityUtils.decodeJwt('opaque-token')).toBeNull();
+      expect(SecurityUtils.decodeJwt('a.not-json.c')).toBeNull();
+      expect(SecurityUtils.decodeJwt(`a.${encode(['claims'])}.c`)).toBeNull();
+    });
+  });
+
   describe('Header Sanitization', () => {
     describe('sanitizeHeaders', () => {
       it('should sanitize sensitive headers', () => {
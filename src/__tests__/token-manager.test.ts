@@ -1,20 +1,14 @@
-import { TokenManager } from '@/token-manager';
-import { TanqoryConfig, TokenData } from '@/types';
+import { MemoryTokenStore, TokenManager } from '@/token-manager';
+import { TanqoryConfig, TokenData, TokenStore } from '@/types';
 
 describe('TokenManager', () => {
   const mockConfig: TanqoryConfig = {
     baseURL: 'https://api.test.com',
-    tokenStorage: 'memory',
   };
 
   let tokenManager: TokenManager;
 
   beforeEach(() => {
-    // Clear environment variables
-    delete process.env.TANQORY_ACCESS_TOKEN;
-    delete process.env.TANQORY_REFRESH_TOKEN;
-    delete process.env.TANQORY_TOKEN_EXPIRES_AT;
-
     tokenManager = new TokenManager(mockConfig);
   });
 
@@ -116,55 +110,252 @@ describe('TokenManager', () => {
     });
   });
 
-  describe('Environment Variable Storage', () => {
-    beforeEach(() => {
-      const envConfig: TanqoryConfig = {
-        baseURL: 'https://api.test.com',
-        tokenStorage: 'env',
-      };
-      tokenManager = new TokenManager(envConfig);
+  describe('Token Store', () => {
+    const tokenData: TokenData = {
+      accessToken: 'stored-token',
+      refreshToken: 'stored-refresh',
+      expiresAt: Date.now() / 1000 + 3600,
+    };
+
+    const createStore = (stored: TokenData | null = null) => {
+      const store = new MemoryTokenStore();
+      if (stored) {
+        store.save(stored);
+      }
+      jest.spyOn(store, 'save');
+      jest.spyOn(store, 'clear');
+      return store;
+    };
+
+    it('should load the stored token when ready', async () => {
+      const store = createStore(tokenData);
+      const manager = new TokenManager({ ...mockConfig, tokenStore: store });
+
+      await manager.ready();
+
+      expect(manager.getToken()).toEqual(tokenData);
+      expect(manager.getAuthorizationHeader()).toBe('Bearer stored-token');
     });
 
-    it('should load token from environment variables', () => {
-      process.env.TANQORY_ACCESS_TOKEN = 'env-access-token';
-      process.env.TANQORY_REFRESH_TOKEN = 'env-refresh-token';
-      process.env.TANQORY_TOKEN_EXPIRES_AT = String(Date.now() / 1000 + 3600);
+    it('should save and clear tokens through the store', async () => {
+      const store = createStore();
+      const manager = new TokenManager({ ...mockConfig, tokenStore: store });
+
+      await manager.setToken(tokenData);
+      await expect(store.load()).resolves.toEqual(tokenData);
+
+      await manager.clearToken();
+      await expect(store.load()).resolves.toBeNull();
+      expect(store.clear).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep a token set while the store is loading', async () => {
+      const store = createStore(tokenData);
+      const manager = new TokenManager({ ...mockConfig, tokenStore: store });
+
+      manager.setToken({ accessToken: 'newer-token' });
+      await manager.ready();
 
-      const envConfig: TanqoryConfig = {
-        baseURL: 'https://api.test.com',
-        tokenStorage: 'env',
+      expect(manager.getToken()?.accessToken).toBe('newer-token');
+    });
+
+    it('should apply writes in call order', async () => {
+      const saved: string[] = [];
+      const store: TokenStore = {
+        load: jest.fn().mockResolvedValue(null),
+        save: jest.fn(async (token: TokenData) => {
+          // The first write is the slowest
+          await new Promise((resolve) => setTimeout(resolve, token.accessToken === 'a' ? 20 : 0));
+          saved.push(token.accessToken);
+        }),
+        clear: jest.fn().mockResolvedValue(undefined),
       };
-      const envTokenManager = new TokenManager(envConfig);
+      const manager = new TokenManager({ ...mockConfig, tokenStore: store });
 
-      const token = envTokenManager.getToken();
-      expect(token?.accessToken).toBe('env-access-token');
-      expect(token?.refreshToken).toBe('env-refresh-token');
+      await Promise.all([
+        manager.setToken({ accessToken: 'a' }),
+        manager.setToken({ accessToken: 'b' }),
+      ]);
+
+      expect(saved).toEqual(['a', 'b']);
     });
 
-    it('should save token to environment variables', () => {
-      const tokenData: TokenData = {
-        accessToken: 'new-env-token',
-        refreshToken: 'new-refresh-token',
-        expiresAt: Date.now() / 1000 + 3600,
+    it('should keep writing after a failed write', async () => {
+      const store = createStore();
+      (store.save as jest.Mock).mockRejectedValueOnce(new Error('disk full'));
+      const manager = new TokenManager({ ...mockConfig, tokenStore: store });
+
+      await expect(manager.setToken({ accessToken: 'a' })).rejects.toThrow('disk full');
+      await expect(manager.setToken({ accessToken: 'b' })).resolves.toBeUndefined();
+    });
+
+    it('should report whether a reload replaced the token', async () => {
+      const store = createStore(tokenData);
+      const manager = new TokenManager({ ...mockConfig, tokenStore: store });
+      await manager.ready();
+
+      await expect(manager.reload()).resolves.toBe(false);
+
+      await store.save({ accessToken: 'rotated-elsewhere' });
+      await expect(manager.reload()).resolves.toBe(true);
+      expect(manager.getToken()?.accessToken).toBe('rotated-elsewhere');
+    });
+
+    it('should reject ready when the store cannot be read', async () => {
+      const store: TokenStore = {
+        load: jest.fn().mockRejectedValue(new Error('EACCES')),
+        save: jest.fn(),
+        clear: jest.fn(),
       };
+      const manager = new TokenManager({ ...mockConfig, tokenStore: store });
 
-      tokenManager.setToken(tokenData);
+      await expect(manager.ready()).rejects.toThrow('EACCES');
+      expect(manager.getToken()).toBeNull();
+    });
+  });
+
+  describe('JWT Claims', () => {
+    const now = () => Math.floor(Date.now() / 1000);
+    const jwt = (claims: Record<string, unknown>) =>
+      ['{"alg":"HS256"}', JSON.stringify(claims)]
+        .map((part) => Buffer.from(part).toString('base64url'))
+        .concat('signature')
+        .join('.');
+
+    it('should take expiresAt from the exp claim', async () => {
+      const exp = now() + 3600;
 
-      expect(process.env.TANQORY_ACCESS_TOKEN).toBe('new-env-token');
-      expect(process.env.TANQORY_REFRESH_TOKEN).toBe('new-refresh-token');
-      expect(process.env.TANQORY_TOKEN_EXPIRES_AT).toBe(String(tokenData.expiresAt));
+      await tokenManager.setToken({ accessToken: jwt({ sub: 'user-1', exp }) });
+
+      expect(tokenManager.getToken()?.expiresAt).toBe(exp);
+      expect(tokenManager.getClaims()).toEqual({ sub: 'user-1', exp });
     });
 
-    it('should clear environment variables', () => {
-      process.env.TANQORY_ACCESS_TOKEN = 'env-token';
-      process.env.TANQORY_REFRESH_TOKEN = 'env-refresh';
-      process.env.TANQORY_TOKEN_EXPIRES_AT = '123456789';
+    it('should treat a JWT past its exp claim as invalid', async () => {
+      await tokenManager.setToken({ accessToken: jwt({ exp: now() - 60 }) });
 
-      tokenManager.clearToken();
+      expect(tokenManager.isTokenValid()).toBe(false);
+    });
 
-      expect(process.env.TANQORY_ACCESS_TOKEN).toBeUndefined();
-      expect(process.env.TANQORY_REFRESH_TOKEN).toBeUndefined();
-      expect(process.env.TANQORY_TOKEN_EXPIRES_AT).toBeUndefined();
+    it('should prefer an explicit expiresAt over the exp claim', async () => {
+      const expiresAt = now() + 600;
+
+      await tokenManager.setToken({ accessToken: jwt({ exp: now() + 3600 }), expiresAt });
+
+      expect(tokenManager.getToken()?.expiresAt).toBe(expiresAt);
+    });
+
+    it('should have no claims for opaque tokens', async () => {
+      await tokenManager.setToken({ accessToken: 'opaque-token' });
+
+      expect(tokenManager.getClaims()).toBeNull();
+      await tokenManager.clearToken();
+      expect(tokenManager.getClaims()).toBeNull();
+    });
+
+    it('should reject tokens for another issuer or audience', async () => {
+      const manager = new TokenManager({
+        ...mockConfig,
+        tokenValidation: { issuer: 'https://auth.tanqory.com', audience: ['store-1', 'store-2'] },
+      });
+      const current = jwt({ iss: 'https://auth.tanqory.com', aud: 'store-1' });
+      await manager.setToken({ accessToken: current });
+
+      await expect(
+        manager.setToken({
+          accessToken: jwt({ iss: 'https://auth.staging.tanqory.com', aud: 'store-1' }),
+        })
+      ).rejects.toMatchObject({ name: 'TanqoryError', code: 'INVALID_TOKEN' });
+      await expect(
+        manager.setToken({
+          accessToken: jwt({ iss: 'https://auth.tanqory.com', aud: ['store-3'] }),
+        })
+      ).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+      await expect(manager.setToken({ accessToken: 'opaque-token' })).rejects.toMatchObject({
+        code: 'INVALID_TOKEN',
+      });
+    });
+
+    it('should clear the current token when a new one is rejected', async () => {
+      const tokenStore = new MemoryTokenStore();
+      const manager = new TokenManager({
+        ...mockConfig,
+        tokenStore,
+        tokenValidation: { issuer: 'store-a' },
+      });
+      await manager.setToken({ accessToken: jwt({ iss: 'store-a' }) });
+
+      await expect(
+        manager.setToken({ accessToken: jwt({ iss: 'store-b' }) })
+      ).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+
+      expect(manager.getToken()).toBeNull();
+      expect(manager.getClaims()).toBeNull();
+      await expect(manager.reload()).resolves.toBe(false);
+      await expect(tokenStore.load()).resolves.toBeNull();
+    });
+
+    it('should cap the refresh lead time at a quarter of the token lifetime', async () => {
+      await tokenManager.setToken({
+        accessToken: jwt({ iat: now() - 240, exp: now() + 60 }),
+      });
+      expect(tokenManager.capToLifetime(300)).toBe(75);
+      expect(tokenManager.needsRefresh()).toBe(true);
+
+      await tokenManager.setToken({ accessToken: 'opaque-token', expiresAt: now() + 300 });
+      expect(tokenManager.needsRefresh()).toBe(false);
+      expect(tokenManager.isTokenValid()).toBe(false);
+    });
+
+    it('should reject tokens that are not valid yet', async () => {
+      const manager = new TokenManager({
+        ...mockConfig,
+        tokenValidation: { checkNotBefore: true, clockTolerance: 30 },
+      });
+
+      await expect(
+        manager.setToken({ accessToken: jwt({ nbf: now() + 20 }) })
+      ).resolves.toBeUndefined();
+      await expect(manager.setToken({ accessToken: jwt({ nbf: now() + 60 }) })).rejects.toThrow(
+        'Token is not valid yet'
+      );
     });
+
+    it('should not load a stored token that fails the claim checks', async () => {
+      const tokenStore = new MemoryTokenStore();
+      await tokenStore.save({ accessToken: jwt({ iss: 'https://auth.staging.tanqory.com' }) });
+      const manager = new TokenManager({
+        ...mockConfig,
+        tokenStore,
+        tokenValidation: { issuer: 'https://auth.tanqory.com' },
+      });
+
+      await manager.ready();
+
+      expect(manager.getToken()).toBeNull();
+    });
+  });
+});
+
+describe('MemoryTokenStore', () => {
+  it('should return copies of the stored token', async () => {
+    const store = new MemoryTokenStore();
+    const tokenData: TokenData = { accessToken: 'token' };
+
+    await store.save(tokenData);
+    tokenData.accessToken = 'changed';
+    const loaded = await store.load();
+    loaded!.accessToken = 'changed again';
+
+    await expect(store.load()).resolves.toEqual({ accessToken: 'token' });
+  });
+
+  it('should be empty after clear', async () => {
+    const store = new MemoryTokenStore();
+    await store.save({ accessToken: 'token' });
+
+    await store.clear();
+
+    await expect(store.load()).resolves.toBeNull();
   });
 });
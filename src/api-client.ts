@@ -1,15 +1,82 @@
-import axios, {
-  AxiosInstance,
-  AxiosRequestConfig,
-  AxiosResponse,
-  InternalAxiosRequestConfig,
-} from 'axios';
-import { TanqoryConfig, RequestConfig, ApiResponse, TokenData, TokenSession } from './types';
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import { randomUUID } from 'crypto';
+import {
+  TanqoryConfig,
+  RequestConfig,
+  ApiResponse,
+  TokenData,
+  TokenSession,
+  JwtClaims,
+  ClientCredentialsOptions,
+  CacheEntry,
+  CacheEvent,
+  CacheEventType,
+  CacheSnapshot,
+  CacheStats,
+  CacheStore,
+  PrefetchRequest,
+  CircuitBreakerSnapshot,
+  RateLimitState,
+  PaginateOptions,
+  StreamOptions,
+  BatchResult,
+  Middleware,
+  MiddlewareContext,
+  MiddlewareNext,
+} from './types';
 import { TanqoryLogger } from './logger';
 import { TokenManager } from './token-manager';
-import { MemoryCache } from './cache';
+import { MemoryCache, MemoryCacheStore } from './cache';
+import { CacheControl } from './cache-control';
 import { SecurityUtils } from './security';
 import { TanqoryError } from './errors';
+import { CircuitBreaker } from './circuit-breaker';
+import { MiddlewarePipeline } from './middleware';
+import { RateLimiter } from './rate-limiter';
+import { Paginator } from './paginator';
+import { ResponseStream } from './response-stream';
+
+const NON_IDEMPOTENT_METHODS: RequestConfig['method'][] = ['POST', 'PATCH'];
+
+const CACHE_EVENT_TYPES: CacheEventType[] = ['hit', 'miss', 'stale', 'set', 'evict', 'revalidate'];
+
+// Request headers carrying the credential that cache and deduplication keys are partitioned by
+const CREDENTIAL_HEADERS = ['authorization', 'x-api-key'];
+
+// Responses that are stored in the cache; other statuses are always fetched again
+const CACHEABLE_STATUSES = [200, 203, 204];
+
+// Floor for warm-list refreshes, so responses with a short or zero max-age cannot spin
+const MIN_WARM_INTERVAL = 1000;
+
+// setTimeout fires at once for longer delays, so far-off token refreshes are scheduled in steps
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+// Floor for background token refresh waits, for tokens that are already due when set, e.g.
+// one loaded from the store late in its life
+const MIN_TOKEN_REFRESH_INTERVAL = 10000;
+
+// Wait before retrying a failed token refresh while the token is still usable
+const TOKEN_REFRESH_RETRY_DELAY = 30000;
+
+// Statuses from the batch endpoint that mean the server does not support batching
+const BATCH_UNSUPPORTED_STATUSES = [404, 405, 501];
+
+interface BatchOperation {
+  id: string;
+  method: RequestConfig['method'];
+  url: string;
+  params?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+interface BatchOperationResult {
+  id: string;
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
 
 /**
  * @aiDescription Main API client class for Tanqory e-commerce platform, orchestrating HTTP requests with authentication, caching, and error handling
@@ -21,14 +88,12 @@ import { TanqoryError } from './errors';
  * @aiPerformanceCritical true
  * @aiDomain api-client
  * @aiLayer service
- * @aiCapabilities ['HTTP_REQUEST', 'AUTHENTICATION', 'CACHING', 'RETRY_LOGIC', 'ERROR_HANDLING']
- * @aiDependencies ['axios', 'token-manager', 'cache', 'logger', 'security-utils']
- * @aiBusinessRules ['automatic-token-refresh', 'rate-limiting-respect', 'secure-header-handling']
+ * @aiCapabilities ['HTTP_REQUEST', 'AUTHENTICATION', 'CLIENT_CREDENTIALS_GRANT', 'CACHING', 'RETRY_LOGIC', 'ERROR_HANDLING', 'CIRCUIT_BREAKING', 'REQUEST_DEDUPLICATION', 'MIDDLEWARE', 'RATE_LIMITING', 'PAGINATION', 'CANCELLATION', 'BATCH_REQUESTS', 'STREAMING', 'CACHE_METRICS', 'CACHE_SNAPSHOTS', 'LIFECYCLE', 'CACHE_WARMING']
+ * @aiDependencies ['axios', 'token-manager', 'cache', 'logger', 'security-utils', 'cache-control', 'circuit-breaker', 'middleware', 'rate-limiter', 'paginator', 'response-stream']
+ * @aiBusinessRules ['automatic-token-refresh', 'single-flight-token-refresh', 'proactive-token-refresh', 'refresh-expiring-token-before-send', 'idempotent-mutation-retries', 'batch-fallback-to-individual-requests', 'rate-limiting-respect', 'secure-header-handling', 'respect-cache-control', 'invalidate-cache-on-mutation', 'cache-partitioned-by-credential']
  * @aiValidationRules ['config-validation', 'token-expiry-check', 'cache-ttl-validation']
- * @aiCurrentGaps ['no-circuit-breaker', 'basic-metrics', 'no-request-deduplication']
+ * @aiCurrentGaps ['basic-metrics']
  * @aiImprovementHints [
- *   'implement-circuit-breaker-pattern-for-failing-services',
- *   'add-request-deduplication-for-identical-concurrent-requests',
  *   'implement-metrics-collection-for-request-performance',
  *   'add-request-timeout-strategies-per-endpoint',
  *   'implement-adaptive-retry-delays-based-on-service-response'
@@ -41,20 +106,51 @@ export class TanqoryApiClient {
   private config: TanqoryConfig;
   private logger: TanqoryLogger;
   private tokenManager: TokenManager;
-  private cache: MemoryCache;
+  private cacheStore: CacheStore;
+  private cache: MemoryCache | null = null;
+  private circuitBreaker: CircuitBreaker | null = null;
+  private inFlightRequests: Map<string, Promise<ApiResponse<unknown>>> = new Map();
+  private revalidations: Map<string, Promise<void>> = new Map();
+  private refreshPromise: Promise<void> | null = null;
+  private pipeline: MiddlewarePipeline;
+  private rateLimiter: RateLimiter | null = null;
+  private batchSupported = true;
+  private pendingSleeps: Set<() => void> = new Set();
+  private warmTimers: Set<ReturnType<typeof setTimeout>> = new Set();
+  private tokenRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshRetryAt = 0;
+  private disposed = false;
+  private tokenReady: Promise<void>;
+  private tokenLoaded = false;
 
   constructor(config: TanqoryConfig) {
     this.config = {
       timeout: 30000,
       retries: 3,
       retryDelay: 1000,
-      tokenStorage: 'memory',
       logLevel: 'info',
       enableCaching: false,
       cacheTTL: 300000,
+      cacheMaxEntries: 1000,
+      invalidateOnMutation: true,
       enableTokenRefresh: false,
+      proactiveTokenRefresh: false,
+      tokenRefreshLeadTime: 300000,
+      tokenRefreshJitter: 60000,
       autoRetry: true,
       autoRefreshToken: false,
+      enableCircuitBreaker: false,
+      circuitBreakerThreshold: 5,
+      circuitBreakerCooldown: 30000,
+      enableRequestDeduplication: true,
+      enableRateLimiter: false,
+      autoIdempotencyKey: true,
+      retryNonIdempotent: true,
+      batchEndpoint: '/batch',
+      batchMaxSize: 50,
+      batchConcurrency: 5,
+      prefetchConcurrency: 5,
+      cacheWarmLeadTime: 10000,
       ...config,
     };
 
@@ -68,7 +164,39 @@ export class TanqoryApiClient {
 
     this.logger = new TanqoryLogger(this.config.logLevel);
     this.tokenManager = new TokenManager(this.config);
-    this.cache = new MemoryCache(this.config.cacheTTL);
+    this.tokenReady = this.tokenManager
+      .ready()
+      .catch((error: Error) => {
+        this.logger.warn('Failed to load token from store', { message: error.message });
+      })
+      .then(() => {
+        this.tokenLoaded = true;
+        this.scheduleTokenRefresh();
+      });
+    if (this.config.cacheStore) {
+      this.cacheStore = this.config.cacheStore;
+    } else {
+      this.cache = new MemoryCache(this.config.cacheTTL, {
+        maxEntries: this.config.cacheMaxEntries,
+        maxBytes: this.config.cacheMaxBytes,
+      });
+      this.cacheStore = new MemoryCacheStore(this.cache);
+
+      if (this.config.enableCaching && this.config.cacheSweepInterval) {
+        this.cache.startSweeper(this.config.cacheSweepInterval);
+      }
+    }
+
+    if (this.config.enableCircuitBreaker) {
+      this.circuitBreaker = new CircuitBreaker(
+        this.config.circuitBreakerThreshold,
+        this.config.circuitBreakerCooldown
+      );
+    }
+
+    if (this.config.enableRateLimiter) {
+      this.rateLimiter = this.config.rateLimiter || new RateLimiter(this.config.rateLimitHeaders);
+    }
 
     this.axiosInstance = axios.create({
       baseURL: this.config.baseURL,
@@ -79,75 +207,25 @@ export class TanqoryApiClient {
       },
     });
 
+    this.pipeline = new MiddlewarePipeline([
+      // Auth runs first so cache keys are partitioned by the credential actually sent
+      (context, next) => this.authMiddleware(context, next),
+      (context, next) => this.cacheMiddleware(context, next),
+      (context, next) => this.loggingMiddleware(context, next),
+    ]);
+
     this.setupInterceptors();
+
+    if (this.config.enableCaching && this.config.cacheWarmList?.length) {
+      this.scheduleWarm(this.config.cacheWarmList, 0);
+    }
   }
 
   private setupInterceptors(): void {
-    // Request interceptor
-    this.axiosInstance.interceptors.request.use(
-      async (config: InternalAxiosRequestConfig & { skipAuth?: boolean }) => {
-        // Add authentication if available and not skipped
-        if (!config.skipAuth) {
-          const authHeader = this.tokenManager.getAuthorizationHeader();
-          if (authHeader) {
-            config.headers.Authorization = authHeader;
-          } else if (this.config.apiKey) {
-            config.headers['X-API-Key'] = this.config.apiKey;
-          }
-        }
-
-        // Add conditional request headers for caching
-        if (this.config.enableCaching && config.method === 'get') {
-          const etag = this.cache.getEtag(config.url || '', config.method || 'GET', config.params);
-          if (etag) {
-            config.headers['If-None-Match'] = etag;
-          }
-        }
-
-        // Log request
-        this.logger.debug('Making request', {
-          method: config.method?.toUpperCase(),
-          url: SecurityUtils.sanitizeUrl(config.url || ''),
-          headers: SecurityUtils.sanitizeHeaders(config.headers || {}),
-        });
-
-        return config;
-      },
-      (error) => {
-        this.logger.error('Request interceptor error', error);
-        return Promise.reject(error);
-      }
-    );
-
-    // Response interceptor
+    // Auth, caching and logging run as middlewares; the interceptor only handles
+    // transport-level concerns (token refresh, error mapping)
     this.axiosInstance.interceptors.response.use(
-      (response) => {
-        // Log successful response
-        this.logger.debug('Response received', {
-          status: response.status,
-          statusText: response.statusText,
-          url: SecurityUtils.sanitizeUrl(response.config.url || ''),
-        });
-
-        // Cache GET responses
-        if (
-          this.config.enableCaching &&
-          response.config.method === 'get' &&
-          response.status === 200
-        ) {
-          const etag = response.headers.etag;
-          this.cache.set(
-            response.config.url || '',
-            'GET',
-            response.data,
-            response.config.params,
-            this.config.cacheTTL,
-            etag
-          );
-        }
-
-        return response;
-      },
+      (response) => response,
       async (error) => {
         const originalRequest = error.config;
 
@@ -155,59 +233,662 @@ export class TanqoryApiClient {
         if (
           error.response?.status === 401 &&
           !originalRequest._retry &&
-          this.config.enableTokenRefresh
+          (this.config.enableTokenRefresh || this.config.clientCredentials)
         ) {
           originalRequest._retry = true;
 
-          const tokenData = this.tokenManager.getToken();
-          if (tokenData?.refreshToken) {
+          const sentAuthHeader = originalRequest.headers?.Authorization;
+          const currentAuthHeader = this.tokenManager.getAuthorizationHeader();
+          const tokenRotated =
+            !!sentAuthHeader && !!currentAuthHeader && sentAuthHeader !== currentAuthHeader;
+
+          if (tokenRotated || this.refreshPromise || this.canRefreshToken()) {
             try {
-              await this.refreshToken(tokenData.refreshToken);
+              // The token may already have been refreshed while this request was in flight
+              if (!tokenRotated) {
+                await this.refreshTokenOnce();
+              }
               // Retry original request with new token
               const authHeader = this.tokenManager.getAuthorizationHeader();
               if (authHeader) {
                 originalRequest.headers.Authorization = authHeader;
               }
               return this.axiosInstance(originalRequest);
-            } catch (refreshError) {
-              this.logger.error('Token refresh failed', refreshError);
-              this.tokenManager.clearToken();
+            } catch {
+              // Refresh failure is logged once by refreshTokenOnce; fall through to the 401
             }
           }
         }
 
-        // Handle 304 Not Modified - return cached data
-        if (error.response?.status === 304) {
-          const cachedData = this.cache.get(
-            originalRequest.url,
-            originalRequest.method?.toUpperCase() || 'GET',
-            originalRequest.params
+        // Streamed error bodies are read in full so the error carries the server message
+        if (originalRequest?.responseType === 'stream' && error.response?.data) {
+          error.response.data = await ResponseStream.readAll(error.response.data).catch(
+            () => undefined
           );
-
-          if (cachedData) {
-            this.logger.debug('Returning cached data for 304 response');
-            return {
-              data: cachedData,
-              status: 200,
-              statusText: 'OK',
-              headers: error.response.headers,
-              config: originalRequest,
-            };
-          }
         }
 
-        const tanqoryError = TanqoryError.fromAxiosError(error);
-        this.logger.error('Request failed', {
-          status: tanqoryError.status,
-          message: tanqoryError.message,
-          code: tanqoryError.code,
+        throw TanqoryError.fromAxiosError(error);
+      }
+    );
+  }
+
+  private async cacheMiddleware(
+    context: MiddlewareContext,
+    next: MiddlewareNext
+  ): Promise<ApiResponse> {
+    const { request } = context;
+    if (!this.config.enableCaching || request.responseType === 'stream') {
+      return next();
+    }
+
+    if (request.method !== 'GET') {
+      const response = await next();
+      await this.invalidateAfterMutation(request);
+      return response;
+    }
+
+    const { baseKey, key, index, entry } = await this.lookupCache(request);
+    const age = entry ? Date.now() - entry.timestamp : 0;
+    const maxAge = entry ? (entry.maxAge ?? entry.ttl) : 0;
+
+    if (entry && !request.skipCache) {
+      if (age < maxAge) {
+        this.logger.debug('Returning cached data');
+        return { data: entry.data, status: 200, statusText: 'OK (cached)', headers: {} };
+      }
+
+      if (entry.staleWhileRevalidate && age <= maxAge + entry.staleWhileRevalidate) {
+        this.logger.debug('Returning stale data while revalidating');
+        this.revalidateInBackground(key, request);
+        return { data: entry.data, status: 200, statusText: 'OK (stale)', headers: {} };
+      }
+    }
+
+    // Add conditional request headers for caching
+    if (entry?.etag) {
+      request.headers = { ...request.headers, 'If-None-Match': entry.etag };
+    }
+
+    let response: ApiResponse;
+    try {
+      response = await next();
+    } catch (error) {
+      // stale-if-error: server errors and network failures may fall back to the stale entry
+      const serverFailed =
+        error instanceof TanqoryError &&
+        !error.isAborted() &&
+        (!error.status || error.status >= 500);
+      if (entry && serverFailed && age <= maxAge + (entry.staleIfError || 0)) {
+        this.logger.warn('Returning stale data after request failure', {
+          status: (error as TanqoryError).status,
+          code: (error as TanqoryError).code,
         });
+        return { data: entry.data, status: 200, statusText: 'OK (stale)', headers: {} };
+      }
+      throw error;
+    }
+
+    if (response.status === 304 && entry) {
+      this.logger.debug('Returning cached data for 304 response');
+      this.cache?.recordRevalidation(key);
+      const refreshed = this.refreshEntry(entry, response, request.cacheTags);
+      if (refreshed) {
+        await this.writeCache(key, refreshed);
+        if (index?.vary) {
+          await this.writeVaryIndex(baseKey, index.vary, refreshed, index);
+        }
+      } else {
+        await this.deleteCache(key);
+      }
+      return { data: entry.data, status: 200, statusText: 'OK', headers: response.headers };
+    }
+
+    if (CACHEABLE_STATUSES.includes(response.status)) {
+      await this.storeResponse(request, response, baseKey, index, entry ? key : null);
+    }
+
+    return response;
+  }
+
+  /**
+   * Finds the cached entry for a GET request. When the response was stored with
+   * a `Vary` header, `baseKey` holds an index entry naming the varying request
+   * headers (`index`) and the response itself lives under a variant key built
+   * from them. With `peek`, reads are not counted in the cache statistics.
+   */
+  private async lookupCache(
+    request: RequestConfig,
+    { peek = false } = {}
+  ): Promise<{
+    baseKey: string;
+    key: string;
+    index: CacheEntry | null;
+    entry: CacheEntry | null;
+  }> {
+    const baseKey = MemoryCache.keyFor(
+      request.url,
+      request.method,
+      request.params,
+      this.getCachePartition(request)
+    );
+    const entry = await this.readCache(baseKey, peek);
+    if (!entry?.vary) {
+      return { baseKey, key: baseKey, index: null, entry };
+    }
+
+    const key = this.getVariantKey(baseKey, entry.vary, request);
+    return { baseKey, key, index: entry, entry: await this.readCache(key, peek) };
+  }
+
+  /**
+   * Stores a response, or removes the entry it replaces (`staleKey`) when the
+   * response must not be cached. Responses with `Vary` are stored per variant.
+   */
+  private async storeResponse(
+    request: RequestConfig,
+    response: ApiResponse,
+    baseKey: string,
+    index: CacheEntry | null,
+    staleKey: string | null
+  ): Promise<void> {
+    const fresh = this.toCacheEntry(response, request.cacheTags);
+    if (!fresh) {
+      if (staleKey) {
+        await this.deleteCache(staleKey);
+      }
+      return;
+    }
+
+    const vary = this.getVary(response);
+    if (vary.length === 0) {
+      await this.writeCache(baseKey, fresh);
+      return;
+    }
+
+    await this.writeVaryIndex(baseKey, vary, fresh, index);
+    await this.writeCache(this.getVariantKey(baseKey, vary, request), fresh);
+  }
+
+  /**
+   * Writes the `Vary` index at `baseKey` for a variant stored or renewed now.
+   * The index outlives every variant it points at, otherwise a renewed variant
+   * could no longer be found once the index's original lifetime had passed.
+   */
+  private async writeVaryIndex(
+    baseKey: string,
+    vary: string[],
+    variant: CacheEntry,
+    index: CacheEntry | null
+  ): Promise<void> {
+    const expiresAt = Math.max(
+      variant.timestamp + variant.ttl,
+      index ? index.timestamp + index.ttl : 0
+    );
+    await this.writeCache(baseKey, {
+      data: null,
+      timestamp: variant.timestamp,
+      ttl: expiresAt - variant.timestamp,
+      vary,
+    });
+  }
+
+  /**
+   * Request header names listed in the response's `Vary` header, lower-cased,
+   * deduplicated and sorted so equivalent headers produce the same variant key.
+   */
+  private getVary(response: ApiResponse): string[] {
+    return (response.headers.vary || '')
+      .split(',')
+      .map((name) => name.trim().toLowerCase())
+      .filter((name, index, names) => name && names.indexOf(name) === index)
+      .sort();
+  }
+
+  private getVariantKey(baseKey: string, vary: string[], request: RequestConfig): string {
+    const headers = Object.entries(request.headers || {});
+    const values = vary.map((name) => {
+      const header = headers.find(([header]) => header.toLowerCase() === name);
+      return [name, header ? String(header[1]) : ''];
+    });
+    return `${baseKey}|${JSON.stringify(Object.fromEntries(values))}`;
+  }
+
+  /**
+   * Renews an entry the server confirmed with 304 Not Modified. Cache-Control
+   * sent with the 304 replaces the stored lifetimes, otherwise they restart
+   * unchanged. The stored ETag is kept unless the 304 carries a new one.
+   */
+  private refreshEntry(
+    entry: CacheEntry,
+    response: ApiResponse,
+    tags: string[] = entry.tags || []
+  ): CacheEntry | null {
+    const etag = response.headers.etag || entry.etag;
+    if (!response.headers['cache-control']) {
+      return { ...entry, timestamp: Date.now(), etag };
+    }
+
+    return this.toCacheEntry(
+      { ...response, data: entry.data, headers: { ...response.headers, ...(etag && { etag }) } },
+      tags.length ? tags : undefined
+    );
+  }
+
+  /**
+   * Builds the cache entry for a response from its Cache-Control directives,
+   * or returns null when the response must not be stored. `maxAge` is how long
+   * the entry is fresh; `ttl` is how long it is kept, covering the stale
+   * windows and, for entries with an ETag, revalidation.
+   */
+  private toCacheEntry(response: ApiResponse, tags?: string[]): CacheEntry | null {
+    const directives = CacheControl.parse(response.headers['cache-control']);
+
+    // The cache may be shared between users and processes, so private responses stay out.
+    // `Vary: *` means the response depends on more than the request headers.
+    if (directives.noStore || directives.private || this.getVary(response).includes('*')) {
+      return null;
+    }
+
+    const cacheTTL = this.config.cacheTTL as number;
+    let maxAge = directives.maxAge !== undefined ? directives.maxAge * 1000 : cacheTTL;
+    let staleWhileRevalidate = (directives.staleWhileRevalidate || 0) * 1000;
+    const staleIfError = (directives.staleIfError || 0) * 1000;
+    const etag = response.headers.etag;
+
+    // no-cache responses may be stored, but must be revalidated before every use
+    if (directives.noCache) {
+      maxAge = 0;
+      staleWhileRevalidate = 0;
+    }
+
+    const ttl = Math.max(
+      maxAge + Math.max(staleWhileRevalidate, staleIfError),
+      etag ? cacheTTL : 0
+    );
+    if (ttl <= 0) {
+      return null;
+    }
+
+    return {
+      data: response.data,
+      timestamp: Date.now(),
+      ttl,
+      etag,
+      maxAge,
+      staleWhileRevalidate: staleWhileRevalidate || undefined,
+      staleIfError: staleIfError || undefined,
+      tags,
+    };
+  }
+
+  /**
+   * Drops cached reads a successful mutation may have changed: the resource
+   * itself with any query, its sub-resources (except for POST), its parent
+   * collection, and any `cacheTags` given on the mutation. `PUT /products/123`
+   * clears `/products/123`, `/products/123/...` and `/products`.
+   */
+  private async invalidateAfterMutation(request: RequestConfig): Promise<void> {
+    const prefixes: string[] = [];
+
+    if (this.config.invalidateOnMutation) {
+      const path = request.url.split(/[?#]/)[0].replace(/\/+$/, '');
+      prefixes.push(`GET:${path}:`);
+      // A POST creates under `path` rather than changing what is already there
+      if (request.method !== 'POST') {
+        prefixes.push(`GET:${path}/`);
+      }
+      const parent = path.slice(0, path.lastIndexOf('/'));
+      if (parent && !parent.endsWith('/')) {
+        prefixes.push(`GET:${parent}:`);
+      }
+    }
+
+    try {
+      await Promise.all([
+        ...prefixes.map((prefix) => this.cacheStore.invalidatePrefix(prefix)),
+        ...(request.cacheTags || []).map((tag) => this.cacheStore.invalidateTag(tag)),
+      ]);
+    } catch (error) {
+      this.logger.warn('Cache invalidation failed', { message: (error as Error).message });
+    }
+  }
+
+  /**
+   * Refreshes a stale entry without holding up the caller. Only one refresh
+   * runs per cache key at a time.
+   */
+  private revalidateInBackground(key: string, request: RequestConfig): void {
+    if (this.revalidations.has(key)) {
+      return;
+    }
+
+    // Bypasses deduplication, which would otherwise join the request serving the stale entry
+    const revalidation = this.performRequest({
+      ...request,
+      headers: { ...request.headers },
+      skipCache: true,
+      signal: undefined,
+    })
+      .then(
+        () => undefined,
+        (error: TanqoryError) => {
+          this.logger.warn('Background revalidation failed', {
+            url: SecurityUtils.sanitizeUrl(request.url),
+            message: error.message,
+          });
+        }
+      )
+      .finally(() => {
+        this.revalidations.delete(key);
+      });
+
+    this.revalidations.set(key, revalidation);
+  }
+
+  /**
+   * Reads an entry that the store still retains, fresh or stale. Store failures
+   * are treated as misses so an unavailable shared cache never fails the request.
+   */
+  private async readCache(key: string, peek = false): Promise<CacheEntry | null> {
+    try {
+      // Only the built-in memory cache keeps statistics, so other stores are read as usual
+      const entry = peek && this.cache ? this.cache.peekEntry(key) : await this.cacheStore.get(key);
+      return entry && Date.now() - entry.timestamp <= entry.ttl ? entry : null;
+    } catch (error) {
+      this.logger.warn('Cache read failed', { message: (error as Error).message });
+      return null;
+    }
+  }
+
+  private async writeCache(key: string, entry: CacheEntry): Promise<void> {
+    try {
+      await this.cacheStore.set(key, entry);
+    } catch (error) {
+      this.logger.warn('Cache write failed', { message: (error as Error).message });
+    }
+  }
+
+  private async deleteCache(key: string): Promise<void> {
+    try {
+      await this.cacheStore.delete(key);
+    } catch (error) {
+      this.logger.warn('Cache delete failed', { message: (error as Error).message });
+    }
+  }
 
-        throw tanqoryError;
+  private async authMiddleware(
+    context: MiddlewareContext,
+    next: MiddlewareNext
+  ): Promise<ApiResponse> {
+    const { request } = context;
+
+    // Add authentication if available and not skipped. request() has just refreshed a token
+    // due for it before the first attempt; retries may follow a long back-off.
+    if (!request.skipAuth) {
+      if (context.attempt > 0 && this.shouldRefreshBeforeSending()) {
+        await this.refreshIfExpiring();
       }
+      request.headers = { ...request.headers, ...this.getAuthHeaders() };
+    }
+
+    return next();
+  }
+
+  /**
+   * The credential for authenticated requests: the bearer token or, without
+   * one, the API key. A refreshable token inside the expiry buffer is still
+   * sent when refreshing it failed, as long as it has not expired.
+   */
+  private getAuthHeaders(): Record<string, string> {
+    const authorization = this.tokenManager.getAuthorizationHeader({
+      includeExpiring: this.isTokenRefreshEnabled() && this.canRefreshToken(),
+    });
+    if (authorization) {
+      return { Authorization: authorization };
+    }
+    return this.config.apiKey ? { 'X-API-Key': this.config.apiKey } : {};
+  }
+
+  /**
+   * Refreshes a token that has entered the expiry buffer before it is sent, as
+   * it would otherwise be left out and the request sent with the API key only.
+   * Only a token that has actually expired makes a failed refresh fail the
+   * request and clear the token.
+   */
+  private async refreshIfExpiring(): Promise<void> {
+    if (this.tokenManager.isTokenValid(0)) {
+      await this.refreshTokenOnce({ clearOnFailure: false }).catch(() => {
+        // Failures are logged by refreshTokenOnce; the current token is sent meanwhile
+        this.refreshRetryAt = Date.now() + TOKEN_REFRESH_RETRY_DELAY;
+      });
+      return;
+    }
+
+    await this.refreshTokenOnce();
+  }
+
+  private shouldRefreshBeforeSending(): boolean {
+    if (
+      !this.isTokenRefreshEnabled() ||
+      !this.canRefreshToken() ||
+      !this.tokenManager.needsRefresh()
+    ) {
+      return false;
+    }
+    // After a failed refresh, a token that has not expired is used until the retry delay passes
+    return Date.now() >= this.refreshRetryAt || !this.tokenManager.isTokenValid(0);
+  }
+
+  private isTokenRefreshEnabled(): boolean {
+    return !!(
+      this.config.enableTokenRefresh ||
+      this.config.proactiveTokenRefresh ||
+      this.config.clientCredentials
     );
   }
 
+  /**
+   * A new token can be obtained with the current refresh token or, in
+   * client-credentials mode, from the token endpoint at any time.
+   */
+  private canRefreshToken(): boolean {
+    return !!(this.config.clientCredentials || this.tokenManager.getToken()?.refreshToken);
+  }
+
+  /**
+   * Schedules a background refresh `tokenRefreshLeadTime` plus a random share of
+   * `tokenRefreshJitter` before the current token expires, but no earlier than
+   * three quarters into its lifetime, replacing any earlier schedule. `delay`
+   * overrides the computed wait, e.g. to retry a failed refresh.
+   */
+  private scheduleTokenRefresh(delay?: number): void {
+    if (this.tokenRefreshTimer) {
+      clearTimeout(this.tokenRefreshTimer);
+      this.tokenRefreshTimer = null;
+    }
+
+    // A refresh still in flight when the client was disposed must not schedule another
+    const token = this.tokenManager.getToken();
+    if (
+      this.disposed ||
+      !this.config.proactiveTokenRefresh ||
+      !this.canRefreshToken() ||
+      !token?.expiresAt
+    ) {
+      return;
+    }
+
+    const lead =
+      (this.config.tokenRefreshLeadTime as number) +
+      Math.random() * (this.config.tokenRefreshJitter as number);
+    const refreshAt = (token.expiresAt - this.tokenManager.capToLifetime(lead / 1000)) * 1000;
+    const wait = Math.max(delay ?? refreshAt - Date.now(), MIN_TOKEN_REFRESH_INTERVAL);
+
+    const timer = setTimeout(
+      () => {
+        this.tokenRefreshTimer = null;
+        if (wait > MAX_TIMER_DELAY) {
+          this.scheduleTokenRefresh();
+          return;
+        }
+
+        this.refreshTokenOnce({ clearOnFailure: false }).catch(() => {
+          // Failures are logged by refreshTokenOnce; retry while the token is still usable
+          const expiresAt = this.tokenManager.getToken()?.expiresAt;
+          if (expiresAt && expiresAt * 1000 > Date.now() + TOKEN_REFRESH_RETRY_DELAY) {
+            this.scheduleTokenRefresh(TOKEN_REFRESH_RETRY_DELAY);
+          }
+        });
+      },
+      Math.min(wait, MAX_TIMER_DELAY)
+    );
+    timer.unref?.();
+    this.tokenRefreshTimer = timer;
+  }
+
+  private async loggingMiddleware(
+    context: MiddlewareContext,
+    next: MiddlewareNext
+  ): Promise<ApiResponse> {
+    const { request } = context;
+    const url = SecurityUtils.sanitizeUrl(request.url);
+
+    this.logger.debug('Making request', {
+      method: request.method,
+      url,
+      headers: SecurityUtils.sanitizeHeaders(request.headers || {}),
+      attempt: context.attempt,
+    });
+
+    try {
+      const response = await next();
+      this.logger.debug('Response received', {
+        status: response.status,
+        statusText: response.statusText,
+        url,
+      });
+      return response;
+    } catch (error: unknown) {
+      const tanqoryError =
+        error instanceof TanqoryError ? error : TanqoryError.fromAxiosError(error);
+      this.logger.error('Request failed', {
+        status: tanqoryError.status,
+        message: tanqoryError.message,
+        code: tanqoryError.code,
+      });
+      throw tanqoryError;
+    }
+  }
+
+  private async sendRequest(context: MiddlewareContext): Promise<ApiResponse> {
+    const { request } = context;
+    const axiosConfig: AxiosRequestConfig & { skipAuth?: boolean } = {
+      url: request.url,
+      method: request.method.toLowerCase() as 'get' | 'post' | 'put' | 'delete' | 'patch',
+      headers: request.headers,
+      params: request.params,
+      data: request.data,
+      timeout: request.timeout || this.config.timeout,
+      signal: request.signal,
+      responseType: request.responseType,
+      skipAuth: request.skipAuth,
+    };
+
+    // A conditional request expects 304 Not Modified as a normal reply, answered from the cache
+    if (Object.keys(request.headers || {}).some((name) => name.toLowerCase() === 'if-none-match')) {
+      axiosConfig.validateStatus = (status) => (status >= 200 && status < 300) || status === 304;
+    }
+
+    const rateLimiter = this.rateLimiter;
+    const rateLimitKey = this.getRateLimitKey();
+    if (rateLimiter) {
+      await rateLimiter.acquire(rateLimitKey, request.signal);
+    }
+
+    const circuitBreaker = this.circuitBreaker;
+    const send = () =>
+      this.axiosInstance(axiosConfig).then(
+        (response) => {
+          rateLimiter?.update(rateLimitKey, response.headers as Record<string, string>);
+          return response;
+        },
+        (error: unknown) => {
+          if (error instanceof TanqoryError) {
+            rateLimiter?.update(rateLimitKey, error.response?.headers);
+          }
+          throw error;
+        }
+      );
+
+    const response = circuitBreaker
+      ? await circuitBreaker.execute(CircuitBreaker.keyFor(request.method, request.url), send)
+      : await send();
+
+    return {
+      data: response.data,
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers as Record<string, string>,
+    };
+  }
+
+  /**
+   * Refreshes the token, sharing one refresh between concurrent callers. A
+   * failed refresh clears the token unless `clearOnFailure` is false, which
+   * callers pass while the token has not expired yet.
+   */
+  private refreshTokenOnce({ clearOnFailure = true } = {}): Promise<void> {
+    if (!this.refreshPromise) {
+      const refreshToken = this.tokenManager.getToken()?.refreshToken;
+      if (!refreshToken && !this.config.clientCredentials) {
+        return Promise.reject(
+          new TanqoryError('No refresh token available', 401, 'TOKEN_REFRESH_FAILED')
+        );
+      }
+
+      this.refreshPromise = this.reloadToken()
+        .then((reloaded) => {
+          // Another process sharing the token store may already have refreshed the token
+          if (reloaded && !this.tokenManager.needsRefresh()) {
+            this.logger.info('Using token refreshed by another process');
+            return;
+          }
+          if (this.config.clientCredentials) {
+            return this.requestClientCredentialsToken(this.config.clientCredentials);
+          }
+          return this.refreshToken(this.tokenManager.getToken()?.refreshToken || refreshToken!);
+        })
+        .then(() => {
+          this.refreshRetryAt = 0;
+          this.scheduleTokenRefresh();
+        })
+        .catch((refreshError) => {
+          this.logger.error('Token refresh failed', refreshError);
+          if (!clearOnFailure) {
+            throw refreshError;
+          }
+          this.clearToken().catch((error: Error) => {
+            this.logger.warn('Failed to clear token from store', { message: error.message });
+          });
+          throw refreshError;
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+
+    return this.refreshPromise;
+  }
+
+  private async reloadToken(): Promise<boolean> {
+    try {
+      return await this.tokenManager.reload();
+    } catch (error) {
+      this.logger.warn('Failed to reload token from store', { message: (error as Error).message });
+      return false;
+    }
+  }
+
   private async refreshToken(refreshToken: string): Promise<void> {
     try {
       const response = await axios.post(`${this.config.baseURL}/auth/refresh`, {
@@ -221,7 +902,13 @@ export class TanqoryApiClient {
         tokenType: response.data.token_type || 'Bearer',
       };
 
-      this.tokenManager.setToken(newTokenData);
+      await this.tokenManager.setToken(newTokenData).catch((error: TanqoryError) => {
+        // A token failing the claim checks was not accepted; only store errors are tolerated
+        if (error.code === 'INVALID_TOKEN') {
+          throw error;
+        }
+        this.logger.warn('Failed to save refreshed token', { message: error.message });
+      });
       this.logger.info('Token refreshed successfully');
     } catch (error) {
       this.logger.error('Failed to refresh token', error);
@@ -229,19 +916,91 @@ export class TanqoryApiClient {
     }
   }
 
-  private async sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  /**
+   * Obtains a token with the OAuth2 client-credentials grant. The client
+   * authenticates with HTTP Basic; no refresh token is issued, so the grant is
+   * simply repeated when the token expires.
+   */
+  private async requestClientCredentialsToken(options: ClientCredentialsOptions): Promise<void> {
+    const body = new URLSearchParams({ grant_type: 'client_credentials' });
+    if (options.scopes?.length) {
+      body.set('scope', options.scopes.join(' '));
+    }
+
+    try {
+      const response = await axios.post(
+        options.tokenEndpoint || `${this.config.baseURL}/oauth/token`,
+        body.toString(),
+        {
+          auth: { username: options.clientId, password: options.clientSecret },
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        }
+      );
+
+      const tokenData: TokenData = {
+        accessToken: response.data.access_token,
+        tokenType: response.data.token_type || 'Bearer',
+        expiresAt:
+          typeof response.data.expires_in === 'number'
+            ? Math.floor(Date.now() / 1000) + response.data.expires_in
+            : undefined,
+      };
+
+      await this.tokenManager.setToken(tokenData).catch((error: TanqoryError) => {
+        if (error.code === 'INVALID_TOKEN') {
+          throw error;
+        }
+        this.logger.warn('Failed to save token', { message: error.message });
+      });
+      this.logger.info('Token obtained with client credentials');
+    } catch (error) {
+      // Only the message is logged: request errors carry the client secret in their config
+      this.logger.error('Failed to obtain token with client credentials', {
+        message: (error as Error).message,
+      });
+      throw new TanqoryError('Token request failed', 401, 'TOKEN_REFRESH_FAILED');
+    }
+  }
+
+  private async sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(TanqoryError.aborted());
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        this.pendingSleeps.delete(onAbort);
+        signal?.removeEventListener('abort', onAbort);
+        reject(TanqoryError.aborted());
+      };
+      const timer = setTimeout(() => {
+        this.pendingSleeps.delete(onAbort);
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      // dispose() cancels back-off waits the same way an abort does
+      this.pendingSleeps.add(onAbort);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   private async executeWithRetry<T>(
-    requestFn: () => Promise<AxiosResponse<T>>,
-    retries: number = this.config.retries || 3
-  ): Promise<AxiosResponse<T>> {
+    requestFn: (attempt: number) => Promise<T>,
+    retries: number = this.config.retries || 3,
+    signal?: AbortSignal
+  ): Promise<T> {
     let lastError: TanqoryError | null = null;
 
     for (let attempt = 0; attempt <= retries; attempt++) {
+      if (signal?.aborted) {
+        throw TanqoryError.aborted();
+      }
+
       try {
-        return await requestFn();
+        return await requestFn(attempt);
       } catch (error: unknown) {
         lastError = error instanceof TanqoryError ? error : TanqoryError.fromAxiosError(error);
 
@@ -249,15 +1008,10 @@ export class TanqoryApiClient {
           throw lastError;
         }
 
+        const retryAfter = lastError.response?.headers?.['retry-after'];
         const delay = lastError.isRateLimited()
-          ? (error as { response?: { headers: Record<string, string> } })?.response?.headers[
-              'retry-after'
-            ]
-            ? parseInt(
-                (error as { response: { headers: Record<string, string> } }).response.headers[
-                  'retry-after'
-                ]
-              ) * 1000
+          ? retryAfter
+            ? parseInt(retryAfter) * 1000
             : 60000
           : (this.config.retryDelay || 1000) * Math.pow(2, attempt);
 
@@ -267,7 +1021,7 @@ export class TanqoryApiClient {
           error: lastError.message,
         });
 
-        await this.sleep(delay);
+        await this.sleep(delay, signal);
       }
     }
 
@@ -277,48 +1031,159 @@ export class TanqoryApiClient {
     throw lastError;
   }
 
-  async request<T>(requestConfig: RequestConfig): Promise<ApiResponse<T>> {
-    // Check cache first for GET requests
-    if (this.config.enableCaching && !requestConfig.skipCache && requestConfig.method === 'GET') {
-      const cachedData = this.cache.get<T>(
-        requestConfig.url,
-        requestConfig.method,
-        requestConfig.params
-      );
-      if (cachedData) {
-        this.logger.debug('Returning cached data');
-        return {
-          data: cachedData,
-          status: 200,
-          statusText: 'OK (cached)',
-          headers: {},
-        };
+  /**
+   * Identifies the credential a request is sent with. Inside the pipeline the
+   * auth middleware has already added it to the request headers.
+   */
+  private getAuthIdentity(requestConfig: RequestConfig): string {
+    const headers = {
+      ...requestConfig.headers,
+      ...(requestConfig.skipAuth ? {} : this.getAuthHeaders()),
+    };
+
+    for (const name of CREDENTIAL_HEADERS) {
+      const credential = Object.entries(headers).find(
+        ([header]) => header.toLowerCase() === name
+      )?.[1];
+      if (credential) {
+        return SecurityUtils.hash(credential);
       }
     }
+    return 'anonymous';
+  }
 
-    const axiosConfig: AxiosRequestConfig & { skipAuth?: boolean } = {
-      url: requestConfig.url,
-      method: requestConfig.method.toLowerCase() as 'get' | 'post' | 'put' | 'delete' | 'patch',
-      headers: requestConfig.headers,
-      params: requestConfig.params,
-      data: requestConfig.data,
-      timeout: requestConfig.timeout || this.config.timeout,
-      skipAuth: requestConfig.skipAuth,
-    };
+  /**
+   * Partitions cached responses by store and credential, so a response cached
+   * for one customer is never served to another. Requests marked
+   * `cacheScope: 'public'` share one partition per store.
+   */
+  private getCachePartition(requestConfig: RequestConfig): string {
+    const identity =
+      requestConfig.cacheScope === 'public' ? 'public' : this.getAuthIdentity(requestConfig);
+    return `${this.config.storeId || 'default'}:${identity}`;
+  }
+
+  private getRateLimitKey(): string {
+    return this.config.storeId || 'default';
+  }
+
+  private getDeduplicationKey(requestConfig: RequestConfig): string {
+    return [
+      requestConfig.method,
+      requestConfig.url,
+      JSON.stringify(requestConfig.params || {}),
+      JSON.stringify(requestConfig.headers || {}),
+      this.getAuthIdentity(requestConfig),
+    ].join(':');
+  }
+
+  async request<T>(requestConfig: RequestConfig): Promise<ApiResponse<T>> {
+    // The token saved by an earlier process must be in place before auth and cache keys use it
+    if (!this.tokenLoaded) {
+      await this.tokenReady;
+    }
+    // Likewise a token about to be refreshed, so the keys name the credential that is sent
+    if (!requestConfig.skipAuth && this.shouldRefreshBeforeSending()) {
+      await this.refreshIfExpiring();
+    }
+
+    // Share one round trip between concurrent identical GET requests. Requests with
+    // their own AbortSignal are never shared, so one caller cannot cancel another,
+    // and neither are streams, which only one consumer can read.
+    if (
+      !this.config.enableRequestDeduplication ||
+      requestConfig.method !== 'GET' ||
+      requestConfig.signal ||
+      requestConfig.responseType === 'stream'
+    ) {
+      return this.performRequest<T>(requestConfig);
+    }
+
+    const key = this.getDeduplicationKey(requestConfig);
+    const inFlight = this.inFlightRequests.get(key);
+    if (inFlight) {
+      this.logger.debug('Joining in-flight request', {
+        url: SecurityUtils.sanitizeUrl(requestConfig.url),
+      });
+      return inFlight as Promise<ApiResponse<T>>;
+    }
+
+    const promise = this.performRequest<T>(requestConfig).finally(() => {
+      this.inFlightRequests.delete(key);
+    });
+    this.inFlightRequests.set(key, promise);
+
+    return promise;
+  }
+
+  private getIdempotencyKey(requestConfig: RequestConfig): string | undefined {
+    return Object.entries(requestConfig.headers || {}).find(
+      ([header]) => header.toLowerCase() === 'idempotency-key'
+    )?.[1];
+  }
+
+  /**
+   * Gives POST and PATCH requests one `Idempotency-Key` for the whole logical
+   * mutation, so every retry attempt carries the same key.
+   */
+  private applyIdempotencyKey(requestConfig: RequestConfig): RequestConfig {
+    if (
+      !NON_IDEMPOTENT_METHODS.includes(requestConfig.method) ||
+      this.getIdempotencyKey(requestConfig)
+    ) {
+      return requestConfig;
+    }
+
+    const key =
+      requestConfig.idempotencyKey || (this.config.autoIdempotencyKey ? randomUUID() : undefined);
+    if (!key) {
+      return requestConfig;
+    }
+
+    return { ...requestConfig, headers: { ...requestConfig.headers, 'Idempotency-Key': key } };
+  }
+
+  private async performRequest<T>(requestConfig: RequestConfig): Promise<ApiResponse<T>> {
+    const config = this.applyIdempotencyKey(requestConfig);
+
+    // Retrying a mutation without a key risks applying it twice
+    const retries =
+      NON_IDEMPOTENT_METHODS.includes(config.method) &&
+      !this.config.retryNonIdempotent &&
+      !this.getIdempotencyKey(config)
+        ? 0
+        : config.retries;
 
     const response = await this.executeWithRetry(
-      () => this.axiosInstance(axiosConfig),
-      requestConfig.retries
+      (attempt) =>
+        this.pipeline.execute(
+          {
+            request: { ...config, headers: { ...config.headers } },
+            attempt,
+          },
+          (context) => this.sendRequest(context)
+        ),
+      retries,
+      config.signal
     );
 
     return {
-      data: response.data,
+      data: response.data as T,
       status: response.status,
       statusText: response.statusText,
-      headers: response.headers as Record<string, string>,
+      headers: response.headers,
     };
   }
 
+  /**
+   * Registers a middleware around every request attempt. Middlewares run in
+   * registration order, before the built-in auth, cache and logging steps.
+   */
+  use(middleware: Middleware): this {
+    this.pipeline.use(middleware);
+    return this;
+  }
+
   async get<T>(url: string, config?: Partial<RequestConfig>): Promise<ApiResponse<T>> {
     return this.request<T>({
       url,
@@ -374,32 +1239,370 @@ export class TanqoryApiClient {
     });
   }
 
-  setToken(tokenData: TokenData): void {
-    this.tokenManager.setToken(tokenData);
+  /**
+   * Iterates over every item of a paginated GET endpoint, fetching pages lazily
+   * through `request()` so retries, caching and auth apply to each page.
+   */
+  paginate<T>(url: string, options?: PaginateOptions<T>): Paginator<T> {
+    return new Paginator<T>((config) => this.request(config), url, options);
   }
 
-  clearToken(): void {
-    this.tokenManager.clearToken();
+  /**
+   * Sends several requests as JSON batch calls to `batchEndpoint`, resolving to
+   * one result per request in the original order. A failed item resolves to its
+   * TanqoryError instead of rejecting the whole batch. When the server has no
+   * batch support the requests are sent individually, `batchConcurrency` at a time.
+   */
+  async batch<T = unknown>(requests: RequestConfig[]): Promise<BatchResult<T>[]> {
+    if (!this.config.batchEndpoint || !this.batchSupported) {
+      return this.sendIndividually<T>(requests);
+    }
+
+    const chunkSize = Math.max(this.config.batchMaxSize || 1, 1);
+    const chunks: RequestConfig[][] = [];
+    for (let i = 0; i < requests.length; i += chunkSize) {
+      chunks.push(requests.slice(i, i + chunkSize));
+    }
+
+    const results = await this.runWithConcurrency(chunks, (chunk) => this.sendBatch<T>(chunk));
+    return results.flat();
   }
 
-  clearCache(): void {
-    this.cache.clear();
+  private async sendBatch<T>(requests: RequestConfig[]): Promise<BatchResult<T>[]> {
+    const operations: BatchOperation[] = requests.map((request, index) => ({
+      id: String(index),
+      method: request.method,
+      url: request.url,
+      params: request.params,
+      headers: request.headers,
+      body: request.data,
+    }));
+
+    try {
+      const response = await this.request<{ responses?: BatchOperationResult[] }>({
+        url: this.config.batchEndpoint as string,
+        method: 'POST',
+        data: { requests: operations },
+      });
+
+      const results = new Map(
+        (response.data?.responses || []).map((result) => [String(result.id), result])
+      );
+
+      const batchResults = operations.map((operation) => {
+        const result = results.get(operation.id);
+        return result
+          ? this.toBatchResult<T>(result)
+          : new TanqoryError(
+              `No batch response for ${operation.method} ${operation.url}`,
+              undefined,
+              'BATCH_ERROR'
+            );
+      });
+
+      // The cache middleware only saw the batch call, so invalidate for each mutation it applied
+      if (this.config.enableCaching) {
+        await Promise.all(
+          requests.map((request, index) =>
+            request.method !== 'GET' && !(batchResults[index] instanceof TanqoryError)
+              ? this.invalidateAfterMutation(request)
+              : undefined
+          )
+        );
+      }
+
+      return batchResults;
+    } catch (error) {
+      const batchError = error instanceof TanqoryError ? error : TanqoryError.fromAxiosError(error);
+
+      if (batchError.status && BATCH_UNSUPPORTED_STATUSES.includes(batchError.status)) {
+        this.batchSupported = false;
+        this.logger.info('Batch endpoint unavailable, sending requests individually', {
+          status: batchError.status,
+        });
+        return this.sendIndividually<T>(requests);
+      }
+
+      return requests.map(() => batchError);
+    }
+  }
+
+  private toBatchResult<T>(result: BatchOperationResult): BatchResult<T> {
+    const headers = result.headers || {};
+
+    if (result.status >= 200 && result.status < 300) {
+      return { data: result.body as T, status: result.status, statusText: '', headers };
+    }
+
+    const body = result.body as { message?: string; code?: string } | undefined;
+    return new TanqoryError(
+      body?.message || `Request failed with status ${result.status}`,
+      result.status,
+      body?.code,
+      { data: result.body, status: result.status, statusText: '', headers }
+    );
+  }
+
+  /**
+   * Fills the response cache ahead of time with GET requests, `prefetchConcurrency`
+   * at a time. Resolves to one result per request in the original order; failed
+   * requests resolve to their TanqoryError. Does nothing while caching is disabled.
+   */
+  async prefetch(requests: PrefetchRequest[]): Promise<BatchResult[]> {
+    if (!this.config.enableCaching) {
+      this.logger.warn('Prefetch skipped because caching is disabled');
+      return [];
+    }
+
+    return this.runWithConcurrency(
+      requests,
+      (request) => this.fetchIntoCache(request, false),
+      this.config.prefetchConcurrency
+    );
+  }
+
+  private fetchIntoCache(request: PrefetchRequest, refresh: boolean): Promise<BatchResult> {
+    return this.get(request.url, { ...request, skipCache: refresh }).catch((error: unknown) =>
+      error instanceof TanqoryError ? error : TanqoryError.fromAxiosError(error)
+    );
+  }
+
+  private scheduleWarm(requests: PrefetchRequest[], delay: number): void {
+    // A warm run still in flight when the client was disposed must not start another
+    if (this.disposed) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.warmTimers.delete(timer);
+      void this.warmCache(requests);
+    }, delay);
+    timer.unref?.();
+    this.warmTimers.add(timer);
+  }
+
+  /**
+   * Refreshes warm-list entries, then schedules each one again `cacheWarmLeadTime`
+   * before it stops being fresh. Failed refreshes are retried after the lead time.
+   */
+  private async warmCache(requests: PrefetchRequest[]): Promise<void> {
+    const leadTime = this.config.cacheWarmLeadTime as number;
+    const results = await this.runWithConcurrency(
+      requests,
+      (request) => this.fetchIntoCache(request, true),
+      this.config.prefetchConcurrency
+    );
+
+    await Promise.all(
+      requests.map(async (request, index) => {
+        const result = results[index];
+        if (result instanceof TanqoryError) {
+          this.logger.warn('Cache warming failed', { url: request.url, code: result.code });
+          this.scheduleWarm([request], Math.max(leadTime, MIN_WARM_INTERVAL));
+          return;
+        }
+
+        const { entry } = await this.lookupCache({ ...request, method: 'GET' }, { peek: true });
+        if (!entry) {
+          this.logger.warn('Warm list response was not cached', { url: request.url });
+          return;
+        }
+
+        const freshUntil = entry.timestamp + (entry.maxAge ?? entry.ttl);
+        this.scheduleWarm(
+          [request],
+          Math.max(freshUntil - leadTime - Date.now(), MIN_WARM_INTERVAL)
+        );
+      })
+    );
+  }
+
+  private sendIndividually<T>(requests: RequestConfig[]): Promise<BatchResult<T>[]> {
+    return this.runWithConcurrency(requests, (request) =>
+      this.request<T>(request).catch((error: unknown) =>
+        error instanceof TanqoryError ? error : TanqoryError.fromAxiosError(error)
+      )
+    );
+  }
+
+  /**
+   * Maps `items` through `worker` with at most `concurrency` calls in flight,
+   * keeping results in input order.
+   */
+  private async runWithConcurrency<I, R>(
+    items: I[],
+    worker: (item: I) => Promise<R>,
+    concurrency = this.config.batchConcurrency
+  ): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    const limit = Math.min(Math.max(concurrency || 1, 1), items.length);
+    let next = 0;
+
+    const runners = Array.from({ length: limit }, async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await worker(items[index]);
+      }
+    });
+
+    await Promise.all(runners);
+    return results;
+  }
+
+  /**
+   * Streams a large response as NDJSON records (or raw chunks with
+   * `format: 'raw'`) instead of buffering it. Auth, middlewares and retries apply
+   * until the response starts; failures after the first byte are not retried.
+   */
+  stream<T = unknown>(url: string, options: StreamOptions = {}): ResponseStream<T> {
+    const { format, ...config } = options;
+    return new ResponseStream<T>(
+      () => this.request({ method: 'GET', ...config, url, responseType: 'stream' }),
+      format
+    );
+  }
+
+  /**
+   * Uses `tokenData` for the following requests at once; the returned promise
+   * resolves when the token store has saved it.
+   */
+  setToken(tokenData: TokenData): Promise<void> {
+    const saved = this.tokenManager.setToken(tokenData);
+    this.scheduleTokenRefresh();
+    return saved;
+  }
+
+  clearToken(): Promise<void> {
+    const cleared = this.tokenManager.clearToken();
+    this.scheduleTokenRefresh();
+    return cleared;
+  }
+
+  /**
+   * Stops the cache sweeper and every timer the client owns: back-off waits of
+   * retrying requests and requests queued by the client's own rate limiter are
+   * aborted. Call it when a script or test suite is done with the client.
+   */
+  dispose(): void {
+    this.disposed = true;
+    this.cache?.stopSweeper();
+    this.warmTimers.forEach((timer) => clearTimeout(timer));
+    this.warmTimers.clear();
+    if (this.tokenRefreshTimer) {
+      clearTimeout(this.tokenRefreshTimer);
+      this.tokenRefreshTimer = null;
+    }
+    this.pendingSleeps.forEach((cancel) => cancel());
+
+    // A limiter passed in through the config may be shared with other clients
+    if (this.rateLimiter && this.rateLimiter !== this.config.rateLimiter) {
+      this.rateLimiter.reset();
+    }
+  }
+
+  async clearCache(): Promise<void> {
+    await this.cacheStore.clear();
+  }
+
+  /**
+   * Returns hit, miss, stale, eviction and 304 revalidation counters plus the
+   * current size of the built-in memory cache, or null with a custom `cacheStore`.
+   */
+  getCacheStats(): CacheStats | null {
+    return this.cache ? this.cache.getStats() : null;
+  }
+
+  /**
+   * Subscribes to hit, miss, stale, set, evict and revalidate events of the
+   * built-in memory cache. Returns a function that removes the listener.
+   */
+  onCacheEvent(listener: (event: CacheEvent) => void): () => void {
+    const cache = this.cache;
+    if (!cache) {
+      return () => undefined;
+    }
+
+    CACHE_EVENT_TYPES.forEach((type) => cache.on(type, listener));
+    return () => CACHE_EVENT_TYPES.forEach((type) => cache.off(type, listener));
+  }
+
+  /**
+   * Serialises the built-in memory cache, e.g. to bundle warm catalog data with a
+   * serverless deployment. Returns null with a custom `cacheStore`.
+   */
+  exportCache(): CacheSnapshot | null {
+    return this.cache ? this.cache.exportSnapshot() : null;
+  }
+
+  /**
+   * Restores a snapshot from `exportCache()` into the built-in memory cache and
+   * returns the number of entries restored. Expired entries and snapshots from
+   * another version are dropped.
+   */
+  importCache(snapshot: CacheSnapshot): number {
+    return this.cache ? this.cache.importSnapshot(snapshot) : 0;
+  }
+
+  /**
+   * Removes cached GET responses whose URL starts with `urlPrefix`, whatever
+   * their query parameters, e.g. `invalidatePrefix('/products')`.
+   */
+  async invalidatePrefix(urlPrefix: string): Promise<void> {
+    await this.cacheStore.invalidatePrefix(`GET:${urlPrefix}`);
+  }
+
+  /**
+   * Removes cached responses that were stored with `tag` in their `cacheTags`.
+   */
+  async invalidateTag(tag: string): Promise<void> {
+    await this.cacheStore.invalidateTag(tag);
   }
 
   setLogLevel(level: 'debug' | 'info' | 'warn' | 'error'): void {
     this.logger.setLevel(level);
   }
 
-  bindCustomerToken(session: TokenSession): void {
-    this.tokenManager.setToken({
+  bindCustomerToken(session: TokenSession): Promise<void> {
+    // Without `expiresAt`, a JWT expires at its `exp` claim and other tokens after 55 minutes
+    const hasExpiryClaim = typeof SecurityUtils.decodeJwt(session.accessToken)?.exp === 'number';
+
+    return this.setToken({
       accessToken: session.accessToken,
       refreshToken: session.refreshToken,
       tokenType: session.tokenType ?? 'Bearer',
-      expiresAt: session.expiresAt ?? Date.now() + 55 * 60 * 1000,
+      expiresAt:
+        session.expiresAt ?? (hasExpiryClaim ? undefined : Math.floor(Date.now() / 1000) + 55 * 60),
     });
   }
 
   isTokenValid(): boolean {
     return this.tokenManager.isTokenValid();
   }
+
+  /**
+   * Returns the decoded claims of the current JWT access token, or null.
+   */
+  getTokenClaims(): JwtClaims | null {
+    return this.tokenManager.getClaims();
+  }
+
+  getCircuitState(method: RequestConfig['method'], url: string): CircuitBreakerSnapshot | null {
+    if (!this.circuitBreaker) {
+      return null;
+    }
+
+    return this.circuitBreaker.getState(CircuitBreaker.keyFor(method, url));
+  }
+
+  getCircuitStates(): CircuitBreakerSnapshot[] {
+    return this.circuitBreaker ? this.circuitBreaker.getStates() : [];
+  }
+
+  resetCircuitBreaker(): void {
+    this.circuitBreaker?.reset();
+  }
+
+  getRateLimitState(): RateLimitState | null {
+    return this.rateLimiter ? this.rateLimiter.getState(this.getRateLimitKey()) : null;
+  }
 }
@@ -0,0 +1,61 @@
+import { CacheDirectives } from './types';
+
+/**
+ * @aiDescription Parser for HTTP Cache-Control response headers, turning server caching directives into values the response cache can apply
+ * @aiPurpose process
+ * @aiModifiable true
+ * @aiRiskLevel low
+ * @aiSecurityCritical false
+ * @aiBusinessCritical false
+ * @aiPerformanceCritical false
+ * @aiDomain caching
+ * @aiLayer service
+ * @aiCapabilities ['CACHE_CONTROL_PARSING']
+ * @aiDependencies ['types']
+ * @aiBusinessRules ['directives-case-insensitive', 'ignore-unknown-directives']
+ * @aiValidationRules ['non-negative-integer-seconds', 'quoted-values']
+ * @aiTestScenarios ['max-age', 'no-store', 'no-cache', 'private', 'stale-extensions', 'malformed-values']
+ * @aiErrorPrevention Never throw on malformed headers, ignore directive values that are not valid seconds
+ */
+export class CacheControl {
+  static parse(header: string | undefined): CacheDirectives {
+    const directives: CacheDirectives = { noStore: false, noCache: false, private: false };
+    if (!header) {
+      return directives;
+    }
+
+    for (const part of header.split(',')) {
+      const [rawName, rawValue] = part.split('=');
+      const name = rawName.trim().toLowerCase();
+      const seconds = CacheControl.toSeconds(rawValue);
+
+      switch (name) {
+        case 'no-store':
+          directives.noStore = true;
+          break;
+        case 'no-cache':
+          directives.noCache = true;
+          break;
+        case 'private':
+          directives.private = true;
+          break;
+        case 'max-age':
+          directives.maxAge = seconds;
+          break;
+        case 'stale-while-revalidate':
+          directives.staleWhileRevalidate = seconds;
+          break;
+        case 'stale-if-error':
+          directives.staleIfError = seconds;
+          break;
+      }
+    }
+
+    return directives;
+  }
+
+  private static toSeconds(value: string | undefined): number | undefined {
+    const trimmed = value?.trim().replace(/^"(.*)"$/, '$1');
+    return trimmed && /^\d+$/.test(trimmed) ? Number(trimmed) : undefined;
+  }
+}
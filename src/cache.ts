@@ -1,4 +1,20 @@
-import { CacheEntry } from './types';
+import { EventEmitter } from 'events';
+import {
+  CacheEntry,
+  CacheEvent,
+  CacheEvictionReason,
+  CacheSnapshot,
+  CacheStats,
+  CacheStore,
+  MemoryCacheOptions,
+} from './types';
+
+interface StoredEntry extends CacheEntry {
+  size: number;
+}
+
+// Bump when the snapshot layout or cache key format changes
+const SNAPSHOT_VERSION = 1;
 
 /**
  * @aiDescription In-memory cache with TTL support and ETag-based conditional requests for API response optimization
@@ -10,39 +26,239 @@ import { CacheEntry } from './types';
  * @aiPerformanceCritical true
  * @aiDomain caching
  * @aiLayer service
- * @aiCapabilities ['CACHE_SET', 'CACHE_GET', 'TTL_MANAGEMENT', 'ETAG_SUPPORT', 'CACHE_CLEANUP']
- * @aiDependencies ['types']
- * @aiBusinessRules ['ttl-expiration', 'memory-efficient', 'etag-conditional-requests']
+ * @aiCapabilities ['CACHE_SET', 'CACHE_GET', 'TTL_MANAGEMENT', 'ETAG_SUPPORT', 'CACHE_CLEANUP', 'LRU_EVICTION', 'PREFIX_INVALIDATION', 'TAG_INVALIDATION', 'CACHE_STATISTICS', 'CACHE_EVENTS', 'CACHE_SNAPSHOTS', 'BACKGROUND_SWEEP']
+ * @aiDependencies ['events', 'types']
+ * @aiBusinessRules ['ttl-expiration', 'memory-efficient', 'etag-conditional-requests', 'evict-expired-before-lru', 'sweeper-never-keeps-process-alive']
  * @aiValidationRules ['ttl-positive-value', 'cache-key-uniqueness']
- * @aiCurrentGaps ['no-memory-limits', 'no-lru-eviction', 'basic-cleanup-strategy']
+ * @aiCurrentGaps ['approximate-size-accounting']
  * @aiImprovementHints [
- *   'implement-lru-eviction-when-memory-limit-reached',
- *   'add-cache-statistics-and-hit-rate-metrics',
  *   'implement-cache-warming-strategies',
- *   'add-cache-compression-for-large-objects',
- *   'implement-background-cleanup-scheduler'
+ *   'add-cache-compression-for-large-objects'
  * ]
- * @aiTestScenarios ['cache-hit-miss', 'ttl-expiration', 'etag-handling', 'memory-cleanup']
+ * @aiTestScenarios ['cache-hit-miss', 'ttl-expiration', 'etag-handling', 'memory-cleanup', 'lru-eviction', 'byte-limit', 'statistics', 'events', 'snapshot-round-trip', 'background-sweep', 'uncounted-peek']
  * @aiErrorPrevention Validate TTL values, check for memory leaks, handle cache key collisions
  */
-export class MemoryCache {
-  private cache: Map<string, CacheEntry> = new Map();
+export class MemoryCache extends EventEmitter {
+  private cache: Map<string, StoredEntry> = new Map();
   private defaultTTL: number;
+  private maxEntries: number;
+  private maxBytes: number;
+  private totalBytes = 0;
+  private counters = { hits: 0, misses: 0, stale: 0, evictions: 0, revalidations: 0 };
+  private sweeper: ReturnType<typeof setInterval> | null = null;
 
-  constructor(defaultTTL: number = 300000) {
+  constructor(defaultTTL: number = 300000, options: MemoryCacheOptions = {}) {
+    super();
     // 5 minutes default
     this.defaultTTL = defaultTTL;
+    this.maxEntries = options.maxEntries ?? Infinity;
+    this.maxBytes = options.maxBytes ?? Infinity;
   }
 
-  private generateKey(url: string, method: string, params?: Record<string, unknown>): string {
+  get size(): number {
+    return this.cache.size;
+  }
+
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  /**
+   * Builds the key used for a request's cache entry. Exposed so other
+   * `CacheStore` implementations share the same key format. The partition
+   * goes last so URL prefixes still match every partition.
+   */
+  static keyFor(
+    url: string,
+    method: string,
+    params?: Record<string, unknown>,
+    partition?: string
+  ): string {
     const paramString = params ? JSON.stringify(params) : '';
-    return `${method}:${url}:${paramString}`;
+    const key = `${method}:${url}:${paramString}`;
+    return partition ? `${key}#${partition}` : key;
   }
 
   private isExpired(entry: CacheEntry): boolean {
     return Date.now() - entry.timestamp > entry.ttl;
   }
 
+  /**
+   * Rough size of an entry in bytes: its key and JSON form as UTF-16 strings.
+   * Values that cannot be serialised count as their key only.
+   */
+  private estimateSize(key: string, data: unknown): number {
+    let serialised = '';
+    try {
+      serialised = JSON.stringify(data) ?? '';
+    } catch {
+      // Circular or otherwise unserialisable data
+    }
+    return (key.length + serialised.length) * 2;
+  }
+
+  private record(event: CacheEvent): void {
+    this.emit(event.type, event);
+  }
+
+  private evictKey(key: string, reason: CacheEvictionReason): void {
+    this.delete(key);
+    this.counters.evictions++;
+    this.record({ type: 'evict', key, reason });
+  }
+
+  private isOverLimit(): boolean {
+    return this.cache.size > this.maxEntries || this.totalBytes > this.maxBytes;
+  }
+
+  private evict(): void {
+    if (!this.isOverLimit()) {
+      return;
+    }
+
+    // Expired entries go first, then the least recently used (Map keeps insertion order)
+    this.cleanup();
+    for (const key of this.cache.keys()) {
+      if (!this.isOverLimit()) {
+        break;
+      }
+      this.evictKey(key, 'size');
+    }
+  }
+
+  setEntry<T>(key: string, entry: CacheEntry<T>): void {
+    const size = this.estimateSize(key, entry.data);
+    this.delete(key);
+
+    // An entry that alone exceeds the byte budget would evict everything else
+    if (size > this.maxBytes) {
+      return;
+    }
+
+    this.cache.set(key, { ...entry, size });
+    this.totalBytes += size;
+    this.record({ type: 'set', key });
+    this.evict();
+  }
+
+  /**
+   * Returns a retained entry without counting it or moving it in the LRU order,
+   * for reads the client makes for itself rather than for a request.
+   */
+  peekEntry<T>(key: string): CacheEntry<T> | null {
+    const entry = this.cache.get(key);
+    return entry && !this.isExpired(entry) ? (entry as CacheEntry<T>) : null;
+  }
+
+  /**
+   * Returns a retained entry. Entries past their `maxAge` are still returned
+   * but counted as stale rather than as hits; `Vary` index entries are not counted.
+   */
+  getEntry<T>(key: string): CacheEntry<T> | null {
+    const entry = this.cache.get(key);
+
+    if (!entry || this.isExpired(entry)) {
+      if (entry) {
+        this.evictKey(key, 'expired');
+      }
+      this.counters.misses++;
+      this.record({ type: 'miss', key });
+      return null;
+    }
+
+    // Move the entry to the most recently used end
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+
+    // Vary index entries only point at the variant read next, which is what gets counted
+    if (entry.vary) {
+      return entry as CacheEntry<T>;
+    }
+
+    if (entry.maxAge !== undefined && Date.now() - entry.timestamp >= entry.maxAge) {
+      this.counters.stale++;
+      this.record({ type: 'stale', key });
+    } else {
+      this.counters.hits++;
+      this.record({ type: 'hit', key });
+    }
+
+    return entry as CacheEntry<T>;
+  }
+
+  /**
+   * Counts a stale entry confirmed by the server with 304 Not Modified.
+   */
+  recordRevalidation(key: string): void {
+    this.counters.revalidations++;
+    this.record({ type: 'revalidate', key });
+  }
+
+  getStats(): CacheStats {
+    return { ...this.counters, entries: this.cache.size, bytes: this.totalBytes };
+  }
+
+  resetStats(): void {
+    this.counters = { hits: 0, misses: 0, stale: 0, evictions: 0, revalidations: 0 };
+  }
+
+  /**
+   * Serialises the live entries, least recently used first, so they can be
+   * restored with `importSnapshot` in another process. Entries keep their
+   * original timestamps, so the remaining TTL carries over.
+   */
+  exportSnapshot(): CacheSnapshot {
+    const entries = Array.from(this.cache.entries())
+      .filter(([, entry]) => !this.isExpired(entry))
+      .map(([key, stored]) => {
+        const entry: Partial<StoredEntry> = { ...stored };
+        delete entry.size;
+        return { key, entry: entry as CacheEntry };
+      });
+
+    return { version: SNAPSHOT_VERSION, createdAt: Date.now(), entries };
+  }
+
+  /**
+   * Restores entries from `exportSnapshot` and returns how many were kept.
+   * Snapshots of another version, expired or malformed entries, and entries
+   * older than the ones already cached are dropped.
+   */
+  importSnapshot(snapshot: CacheSnapshot): number {
+    if (snapshot?.version !== SNAPSHOT_VERSION || !Array.isArray(snapshot.entries)) {
+      return 0;
+    }
+
+    let imported = 0;
+    snapshot.entries.forEach(({ key, entry }) => {
+      const valid =
+        typeof key === 'string' &&
+        typeof entry?.timestamp === 'number' &&
+        typeof entry.ttl === 'number';
+      if (!valid || this.isExpired(entry)) {
+        return;
+      }
+
+      const current = this.cache.get(key);
+      if (current && current.timestamp >= entry.timestamp) {
+        return;
+      }
+
+      this.setEntry(key, entry);
+      imported++;
+    });
+
+    return imported;
+  }
+
+  delete(key: string): void {
+    const entry = this.cache.get(key);
+    if (entry) {
+      this.totalBytes -= entry.size;
+      this.cache.delete(key);
+    }
+  }
+
   set<T>(
     url: string,
     method: string,
@@ -51,34 +267,21 @@ export class MemoryCache {
     ttl?: number,
     etag?: string
   ): void {
-    const key = this.generateKey(url, method, params);
-    const entry: CacheEntry<T> = {
+    this.setEntry(MemoryCache.keyFor(url, method, params), {
       data,
       timestamp: Date.now(),
       ttl: ttl || this.defaultTTL,
       etag,
-    };
-
-    this.cache.set(key, entry);
+    });
   }
 
   get<T>(url: string, method: string, params?: Record<string, unknown>): T | null {
-    const key = this.generateKey(url, method, params);
-    const entry = this.cache.get(key);
-
-    if (!entry || this.isExpired(entry)) {
-      if (entry) {
-        this.cache.delete(key);
-      }
-      return null;
-    }
-
-    return entry.data as T;
+    const entry = this.getEntry<T>(MemoryCache.keyFor(url, method, params));
+    return entry ? entry.data : null;
   }
 
   getEtag(url: string, method: string, params?: Record<string, unknown>): string | undefined {
-    const key = this.generateKey(url, method, params);
-    const entry = this.cache.get(key);
+    const entry = this.cache.get(MemoryCache.keyFor(url, method, params));
 
     if (!entry || this.isExpired(entry)) {
       return undefined;
@@ -88,19 +291,101 @@ export class MemoryCache {
   }
 
   invalidate(url: string, method: string, params?: Record<string, unknown>): void {
-    const key = this.generateKey(url, method, params);
-    this.cache.delete(key);
+    this.delete(MemoryCache.keyFor(url, method, params));
+  }
+
+  invalidatePrefix(prefix: string): void {
+    Array.from(this.cache.keys()).forEach((key) => {
+      if (key.startsWith(prefix)) {
+        this.delete(key);
+      }
+    });
+  }
+
+  invalidateTag(tag: string): void {
+    Array.from(this.cache.entries()).forEach(([key, entry]) => {
+      if (entry.tags?.includes(tag)) {
+        this.delete(key);
+      }
+    });
   }
 
   clear(): void {
     this.cache.clear();
+    this.totalBytes = 0;
+  }
+
+  /**
+   * Runs `cleanup()` every `interval` milliseconds until `stopSweeper()`.
+   * The timer is unref'd, so it never keeps the process alive on its own.
+   */
+  startSweeper(interval: number): void {
+    this.stopSweeper();
+    this.sweeper = setInterval(() => this.cleanup(), interval);
+    this.sweeper.unref?.();
+  }
+
+  stopSweeper(): void {
+    if (this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = null;
+    }
   }
 
   cleanup(): void {
     Array.from(this.cache.entries()).forEach(([key, entry]) => {
       if (this.isExpired(entry)) {
-        this.cache.delete(key);
+        this.evictKey(key, 'expired');
       }
     });
   }
 }
+
+/**
+ * @aiDescription Adapter exposing a MemoryCache through the async CacheStore interface, used as the client's default response cache
+ * @aiPurpose read
+ * @aiModifiable true
+ * @aiRiskLevel low
+ * @aiSecurityCritical false
+ * @aiBusinessCritical false
+ * @aiPerformanceCritical true
+ * @aiDomain caching
+ * @aiLayer service
+ * @aiCapabilities ['CACHE_STORE_GET', 'CACHE_STORE_SET', 'CACHE_STORE_DELETE', 'CACHE_STORE_INVALIDATE', 'CACHE_STORE_CLEAR']
+ * @aiDependencies ['types']
+ * @aiBusinessRules ['delegate-limits-and-expiry-to-memory-cache']
+ * @aiValidationRules ['cache-key-uniqueness']
+ * @aiTestScenarios ['store-round-trip', 'expired-entry-miss', 'delete-and-clear']
+ * @aiErrorPrevention Keep the adapter free of its own state so limits are enforced in one place
+ */
+export class MemoryCacheStore implements CacheStore {
+  private cache: MemoryCache;
+
+  constructor(cache: MemoryCache = new MemoryCache()) {
+    this.cache = cache;
+  }
+
+  async get<T = unknown>(key: string): Promise<CacheEntry<T> | null> {
+    return this.cache.getEntry<T>(key);
+  }
+
+  async set<T = unknown>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.cache.setEntry(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.cache.delete(key);
+  }
+
+  async invalidatePrefix(prefix: string): Promise<void> {
+    this.cache.invalidatePrefix(prefix);
+  }
+
+  async invalidateTag(tag: string): Promise<void> {
+    this.cache.invalidateTag(tag);
+  }
+
+  async clear(): Promise<void> {
+    this.cache.clear();
+  }
+}
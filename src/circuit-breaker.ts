@@ -0,0 +1,164 @@
+import { CircuitBreakerSnapshot, CircuitState } from './types';
+import { TanqoryError } from './errors';
+
+interface CircuitRecord {
+  state: CircuitState;
+  failures: number;
+  openedAt?: number;
+  probeInFlight: boolean;
+}
+
+/**
+ * @aiDescription Per-endpoint circuit breaker that fails fast after consecutive retryable errors and half-opens after a cooldown
+ * @aiPurpose process
+ * @aiModifiable true
+ * @aiRiskLevel medium
+ * @aiSecurityCritical false
+ * @aiBusinessCritical true
+ * @aiPerformanceCritical true
+ * @aiDomain api-client
+ * @aiLayer service
+ * @aiCapabilities ['FAILURE_TRACKING', 'FAIL_FAST', 'HALF_OPEN_PROBE', 'STATE_INSPECTION']
+ * @aiDependencies ['errors', 'types']
+ * @aiBusinessRules ['open-after-consecutive-retryable-failures', 'single-probe-when-half-open', 'route-pattern-keys']
+ * @aiValidationRules ['threshold-positive-value', 'cooldown-positive-value']
+ * @aiTestScenarios ['open-after-threshold', 'fail-fast-while-open', 'half-open-probe', 'route-normalization', 'neutral-network-errors']
+ * @aiErrorPrevention Only retryable errors may trip the circuit, never count client errors (4xx) as backend failures, never let a request that got no response close the circuit
+ */
+export class CircuitBreaker {
+  private circuits: Map<string, CircuitRecord> = new Map();
+  private failureThreshold: number;
+  private cooldown: number;
+
+  constructor(failureThreshold: number = 5, cooldown: number = 30000) {
+    this.failureThreshold = failureThreshold;
+    this.cooldown = cooldown;
+  }
+
+  /**
+   * Builds the circuit key for a request. Query strings are dropped and
+   * identifier-like path segments (numbers, UUIDs, long hex ids) are
+   * collapsed to `:id` so `/products/1` and `/products/2` share a circuit.
+   */
+  static keyFor(method: string, url: string): string {
+    const path = url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i, '').split(/[?#]/)[0];
+    const pattern = path
+      .split('/')
+      .map((segment) =>
+        /^\d+$/.test(segment) ||
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment) ||
+        /^[0-9a-f]{24,}$/i.test(segment)
+          ? ':id'
+          : segment
+      )
+      .join('/');
+
+    return `${method.toUpperCase()} ${pattern || '/'}`;
+  }
+
+  async execute<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const circuit = this.getCircuit(key);
+
+    if (circuit.state === 'open') {
+      if (Date.now() - (circuit.openedAt || 0) < this.cooldown) {
+        throw this.openError(key);
+      }
+      circuit.state = 'half-open';
+    }
+
+    if (circuit.state === 'half-open') {
+      if (circuit.probeInFlight) {
+        throw this.openError(key);
+      }
+      circuit.probeInFlight = true;
+    }
+
+    try {
+      const result = await fn();
+      this.recordSuccess(circuit);
+      return result;
+    } catch (error: unknown) {
+      const tanqoryError =
+        error instanceof TanqoryError ? error : TanqoryError.fromAxiosError(error);
+
+      if (tanqoryError.isRetryable()) {
+        this.recordFailure(circuit);
+      } else if (tanqoryError.status) {
+        // A client error is still an answer from a working backend
+        this.recordSuccess(circuit);
+      } else {
+        // Network errors, timeouts and aborts say nothing either way; only free the probe slot
+        circuit.probeInFlight = false;
+      }
+      throw error;
+    }
+  }
+
+  getState(key: string): CircuitBreakerSnapshot {
+    const circuit = this.circuits.get(key);
+    if (!circuit) {
+      return { key, state: 'closed', failures: 0 };
+    }
+
+    return this.toSnapshot(key, circuit);
+  }
+
+  getStates(): CircuitBreakerSnapshot[] {
+    return Array.from(this.circuits.entries()).map(([key, circuit]) =>
+      this.toSnapshot(key, circuit)
+    );
+  }
+
+  reset(key?: string): void {
+    if (key) {
+      this.circuits.delete(key);
+    } else {
+      this.circuits.clear();
+    }
+  }
+
+  private getCircuit(key: string): CircuitRecord {
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = { state: 'closed', failures: 0, probeInFlight: false };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  private recordSuccess(circuit: CircuitRecord): void {
+    circuit.state = 'closed';
+    circuit.failures = 0;
+    circuit.openedAt = undefined;
+    circuit.probeInFlight = false;
+  }
+
+  private recordFailure(circuit: CircuitRecord): void {
+    circuit.failures++;
+    circuit.probeInFlight = false;
+
+    if (circuit.state === 'half-open' || circuit.failures >= this.failureThreshold) {
+      circuit.state = 'open';
+      circuit.openedAt = Date.now();
+    }
+  }
+
+  private toSnapshot(key: string, circuit: CircuitRecord): CircuitBreakerSnapshot {
+    // An open circuit whose cooldown has elapsed will admit the next request as a probe
+    const state =
+      circuit.state === 'open' && Date.now() - (circuit.openedAt || 0) >= this.cooldown
+        ? 'half-open'
+        : circuit.state;
+
+    return {
+      key,
+      state,
+      failures: circuit.failures,
+      openedAt: circuit.openedAt,
+    };
+  }
+
+  private openError(key: string): TanqoryError {
+    return new TanqoryError(`Circuit open for ${key}`, undefined, 'CIRCUIT_OPEN');
+  }
+}
@@ -7,13 +7,19 @@ export class TanqoryError extends Error implements ApiError {
     data: unknown;
     status: number;
     statusText: string;
+    headers?: Record<string, string>;
   };
 
   constructor(
     message: string,
     status?: number,
     code?: string,
-    response?: { data: unknown; status: number; statusText: string }
+    response?: {
+      data: unknown;
+      status: number;
+      statusText: string;
+      headers?: Record<string, string>;
+    }
   ) {
     super(message);
     this.name = 'TanqoryError';
@@ -22,19 +28,30 @@ export class TanqoryError extends Error implements ApiError {
     this.response = response;
   }
 
+  static aborted(message: string = 'Request aborted'): TanqoryError {
+    return new TanqoryError(message, undefined, 'ABORTED');
+  }
+
+  static invalidToken(message: string): TanqoryError {
+    return new TanqoryError(message, undefined, 'INVALID_TOKEN');
+  }
+
   static fromAxiosError(error: unknown): TanqoryError {
     const axiosError = error as {
       response?: {
         data?: { message?: string; code?: string };
         status: number;
         statusText: string;
+        headers?: Record<string, string>;
       };
       request?: unknown;
       message?: string;
       code?: string;
     };
 
-    if (axiosError.response) {
+    if (axiosError.code === 'ERR_CANCELED') {
+      return TanqoryError.aborted();
+    } else if (axiosError.response) {
       return new TanqoryError(
         axiosError.response.data?.message || axiosError.message || 'Request failed',
         axiosError.response.status,
@@ -43,6 +60,7 @@ export class TanqoryError extends Error implements ApiError {
           data: axiosError.response.data,
           status: axiosError.response.status,
           statusText: axiosError.response.statusText,
+          headers: axiosError.response.headers,
         }
       );
     } else if (axiosError.request) {
@@ -80,4 +98,8 @@ export class TanqoryError extends Error implements ApiError {
   isRateLimited(): boolean {
     return this.status === 429;
   }
+
+  isAborted(): boolean {
+    return this.code === 'ABORTED';
+  }
 }
@@ -0,0 +1,125 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { CacheEntry, CacheStore } from './types';
+import { SecurityUtils } from './security';
+
+interface CacheFile<T = unknown> {
+  key: string;
+  entry: CacheEntry<T>;
+}
+
+/**
+ * @aiDescription File-system CacheStore keeping one JSON file per cache key, so several processes on a host can share cached responses
+ * @aiPurpose read
+ * @aiModifiable true
+ * @aiRiskLevel medium
+ * @aiSecurityCritical true
+ * @aiBusinessCritical false
+ * @aiPerformanceCritical true
+ * @aiDomain caching
+ * @aiLayer service
+ * @aiCapabilities ['CACHE_STORE_GET', 'CACHE_STORE_SET', 'CACHE_STORE_DELETE', 'CACHE_STORE_INVALIDATE', 'CACHE_STORE_CLEAR', 'CROSS_PROCESS_SHARING']
+ * @aiDependencies ['fs', 'security-utils', 'types']
+ * @aiBusinessRules ['hashed-file-names', 'atomic-writes', 'drop-expired-on-read', 'owner-only-permissions']
+ * @aiValidationRules ['stored-key-matches-requested-key', 'corrupt-file-is-a-miss']
+ * @aiTestScenarios ['store-round-trip', 'missing-file-miss', 'expired-entry-removed', 'corrupt-file-miss', 'clear-directory', 'file-permissions']
+ * @aiErrorPrevention Never expose a partially written file to readers, never delete files the store did not create, never create files readable by other users
+ */
+export class FileCacheStore implements CacheStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get<T = unknown>(key: string): Promise<CacheEntry<T> | null> {
+    let file: CacheFile<T>;
+    try {
+      file = JSON.parse(await fs.readFile(this.pathFor(key), 'utf8'));
+    } catch {
+      // Missing or unreadable files are cache misses
+      return null;
+    }
+
+    if (file.key !== key) {
+      return null;
+    }
+
+    if (Date.now() - file.entry.timestamp > file.entry.ttl) {
+      await this.delete(key);
+      return null;
+    }
+
+    return file.entry;
+  }
+
+  async set<T = unknown>(key: string, entry: CacheEntry<T>): Promise<void> {
+    // Entries hold responses private to one customer, so only the owner may read them
+    await fs.mkdir(this.directory, { recursive: true, mode: 0o700 });
+
+    // Write to a temporary file first so concurrent readers never see a partial entry
+    const target = this.pathFor(key);
+    const temporary = `${target}.${randomUUID()}.tmp`;
+    const file: CacheFile<T> = { key, entry };
+
+    try {
+      await fs.writeFile(temporary, JSON.stringify(file), { encoding: 'utf8', mode: 0o600 });
+      await fs.rename(temporary, target);
+    } catch (error) {
+      await fs.rm(temporary, { force: true });
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+
+  async invalidatePrefix(prefix: string): Promise<void> {
+    await this.removeMatching((file) => file.key.startsWith(prefix));
+  }
+
+  async invalidateTag(tag: string): Promise<void> {
+    await this.removeMatching((file) => !!file.entry.tags?.includes(tag));
+  }
+
+  async clear(): Promise<void> {
+    await this.removeMatching(() => true);
+  }
+
+  /**
+   * Removes every cache file whose contents satisfy `matches`. Files that
+   * cannot be read are removed as well, since `get` could never return them.
+   */
+  private async removeMatching(matches: (file: CacheFile) => boolean): Promise<void> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch {
+      return;
+    }
+
+    await Promise.all(
+      names
+        .filter((name) => /^[0-9a-f]{64}\.json$/.test(name))
+        .map(async (name) => {
+          const path = join(this.directory, name);
+          let file: CacheFile | null = null;
+          try {
+            file = JSON.parse(await fs.readFile(path, 'utf8'));
+          } catch {
+            // Unreadable entries are removed below
+          }
+
+          if (!file || matches(file)) {
+            await fs.rm(path, { force: true });
+          }
+        })
+    );
+  }
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${SecurityUtils.hash(key)}.json`);
+  }
+}
@@ -0,0 +1,157 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { randomBytes, randomUUID } from 'crypto';
+import { EncryptedPayload, FileTokenStoreOptions, TokenData, TokenStore } from './types';
+import { SecurityUtils } from './security';
+import { TanqoryError } from './errors';
+
+interface EncryptedTokenFile extends EncryptedPayload {
+  version: number;
+  salt?: string;
+}
+
+const ENCRYPTED_FILE_VERSION = 1;
+
+/**
+ * @aiDescription File-system TokenStore keeping the token in one JSON file readable only by its owner, optionally encrypted with AES-256-GCM, so several processes on a host can share a session
+ * @aiPurpose authenticate
+ * @aiModifiable true
+ * @aiRiskLevel high
+ * @aiSecurityCritical true
+ * @aiBusinessCritical true
+ * @aiDomain auth
+ * @aiLayer service
+ * @aiCapabilities ['TOKEN_STORE_LOAD', 'TOKEN_STORE_SAVE', 'TOKEN_STORE_CLEAR', 'CROSS_PROCESS_SHARING', 'ENCRYPTION_AT_REST']
+ * @aiDependencies ['fs', 'security-utils', 'types']
+ * @aiBusinessRules ['owner-only-permissions', 'atomic-writes', 'clear-tampered-tokens']
+ * @aiValidationRules ['access-token-required', 'corrupt-file-is-empty', 'aes-256-key-length', 'authenticated-decryption']
+ * @aiTestScenarios ['store-round-trip', 'missing-file', 'file-permissions', 'corrupt-file', 'clear', 'encrypted-round-trip', 'passphrase-key', 'tampered-file', 'wrong-key']
+ * @aiErrorPrevention Never expose a partially written token file, never create the file readable by other users, never return a token that failed decryption
+ */
+export class FileTokenStore implements TokenStore {
+  private filePath: string;
+  private encryptionKey?: Buffer;
+  private passphrase?: string;
+  private derivedKey: { salt: string; key: Buffer } | null = null;
+
+  constructor(filePath: string, options: FileTokenStoreOptions = {}) {
+    if (options.encryptionKey && options.passphrase) {
+      throw new TanqoryError(
+        'Use either encryptionKey or passphrase, not both',
+        undefined,
+        'INVALID_CONFIG'
+      );
+    }
+    if (options.encryptionKey && options.encryptionKey.length !== 32) {
+      throw new TanqoryError('encryptionKey must be 32 bytes', undefined, 'INVALID_CONFIG');
+    }
+
+    this.filePath = filePath;
+    this.encryptionKey = options.encryptionKey;
+    this.passphrase = options.passphrase;
+  }
+
+  private get encrypted(): boolean {
+    return !!(this.encryptionKey || this.passphrase);
+  }
+
+  /**
+   * Reads the token. With encryption enabled, a file that cannot be decrypted
+   * (tampered with, or written under another key) is deleted and the load
+   * fails with TOKEN_INTEGRITY_ERROR rather than returning its contents.
+   */
+  async load(): Promise<TokenData | null> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    if (!this.encrypted) {
+      try {
+        const tokenData = JSON.parse(contents) as TokenData;
+        return typeof tokenData?.accessToken === 'string' ? tokenData : null;
+      } catch {
+        // A corrupt file holds no usable session
+        return null;
+      }
+    }
+
+    let tokenData: TokenData | null = null;
+    try {
+      const file = JSON.parse(contents) as EncryptedTokenFile;
+      if (file.version !== ENCRYPTED_FILE_VERSION) {
+        throw new Error('Unsupported token file version');
+      }
+      const key = await this.keyFor(file.salt);
+      tokenData = JSON.parse(SecurityUtils.decrypt(file, key));
+    } catch {
+      // Handled below together with decrypted data that is not a token
+    }
+
+    if (typeof tokenData?.accessToken !== 'string') {
+      await this.clear();
+      throw new TanqoryError(
+        'Stored token failed its integrity check and was cleared',
+        undefined,
+        'TOKEN_INTEGRITY_ERROR'
+      );
+    }
+
+    return tokenData;
+  }
+
+  async save(tokenData: TokenData): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true, mode: 0o700 });
+
+    let contents = JSON.stringify(tokenData);
+    if (this.encrypted) {
+      const salt = this.passphrase
+        ? (this.derivedKey?.salt ?? randomBytes(16).toString('base64'))
+        : undefined;
+      const file: EncryptedTokenFile = {
+        version: ENCRYPTED_FILE_VERSION,
+        salt,
+        ...SecurityUtils.encrypt(contents, await this.keyFor(salt)),
+      };
+      contents = JSON.stringify(file);
+    }
+
+    // Write to a temporary file first so concurrent readers never see a partial token
+    const temporary = `${this.filePath}.${randomUUID()}.tmp`;
+    try {
+      await fs.writeFile(temporary, contents, { encoding: 'utf8', mode: 0o600 });
+      await fs.rename(temporary, this.filePath);
+    } catch (error) {
+      await fs.rm(temporary, { force: true });
+      throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.filePath, { force: true });
+  }
+
+  /**
+   * Returns the configured key, or derives one from the passphrase and `salt`.
+   * The last derived key is kept, since scrypt is deliberately slow.
+   */
+  private async keyFor(salt: string | undefined): Promise<Buffer> {
+    if (this.encryptionKey) {
+      return this.encryptionKey;
+    }
+    if (!salt) {
+      throw new Error('Missing key derivation salt');
+    }
+
+    if (this.derivedKey?.salt !== salt) {
+      const key = await SecurityUtils.deriveKey(this.passphrase!, Buffer.from(salt, 'base64'));
+      this.derivedKey = { salt, key };
+    }
+    return this.derivedKey.key;
+  }
+}
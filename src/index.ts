@@ -1,9 +1,16 @@
 export { TanqoryApiClient } from './api-client';
 export { TanqoryLogger } from './logger';
-export { TokenManager } from './token-manager';
-export { MemoryCache } from './cache';
+export { TokenManager, MemoryTokenStore } from './token-manager';
+export { FileTokenStore } from './file-token-store';
+export { MemoryCache, MemoryCacheStore } from './cache';
+export { FileCacheStore } from './file-cache-store';
+export { CacheControl } from './cache-control';
 export { SecurityUtils } from './security';
 export { TanqoryError } from './errors';
+export { CircuitBreaker } from './circuit-breaker';
+export { RateLimiter } from './rate-limiter';
+export { Paginator } from './paginator';
+export { ResponseStream } from './response-stream';
 export * from './types';
 
 import { TanqoryApiClient } from './api-client';
@@ -0,0 +1,69 @@
+import { ApiResponse, Middleware, MiddlewareContext } from './types';
+import { TanqoryError } from './errors';
+
+/**
+ * @aiDescription Ordered middleware chain wrapping every request attempt, allowing requests to be modified, short-circuited or post-processed
+ * @aiPurpose process
+ * @aiModifiable true
+ * @aiRiskLevel medium
+ * @aiSecurityCritical false
+ * @aiBusinessCritical true
+ * @aiPerformanceCritical true
+ * @aiDomain api-client
+ * @aiLayer service
+ * @aiCapabilities ['MIDDLEWARE_REGISTRATION', 'REQUEST_MUTATION', 'SHORT_CIRCUIT', 'RESPONSE_POST_PROCESSING']
+ * @aiDependencies ['errors', 'types']
+ * @aiBusinessRules ['registration-order-execution', 'built-ins-run-after-user-middlewares', 'single-next-call']
+ * @aiValidationRules ['next-called-at-most-once']
+ * @aiTestScenarios ['execution-order', 'short-circuit', 'request-mutation', 'error-propagation']
+ * @aiErrorPrevention Always surface failures as TanqoryError, never allow next() to dispatch the same request twice
+ */
+export class MiddlewarePipeline {
+  private middlewares: Middleware[] = [];
+  private readonly builtins: Middleware[];
+
+  constructor(builtins: Middleware[] = []) {
+    this.builtins = builtins;
+  }
+
+  use(middleware: Middleware): void {
+    this.middlewares.push(middleware);
+  }
+
+  /**
+   * Runs middlewares added through `use()` in registration order, then the
+   * built-in steps, then `handler`. The outcome of every step is recorded on
+   * the context so outer middlewares can inspect it after `next()` settles.
+   */
+  execute(
+    context: MiddlewareContext,
+    handler: (context: MiddlewareContext) => Promise<ApiResponse>
+  ): Promise<ApiResponse> {
+    const chain = [...this.middlewares, ...this.builtins];
+    let lastIndex = -1;
+
+    const dispatch = async (index: number): Promise<ApiResponse> => {
+      if (index <= lastIndex) {
+        throw new TanqoryError('next() called multiple times', undefined, 'MIDDLEWARE_ERROR');
+      }
+      lastIndex = index;
+
+      const middleware = chain[index];
+
+      try {
+        const response = middleware
+          ? await middleware(context, () => dispatch(index + 1))
+          : await handler(context);
+
+        context.response = response;
+        context.error = undefined;
+        return response;
+      } catch (error: unknown) {
+        context.error = error instanceof TanqoryError ? error : TanqoryError.fromAxiosError(error);
+        throw context.error;
+      }
+    };
+
+    return dispatch(0);
+  }
+}
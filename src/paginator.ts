@@ -0,0 +1,153 @@
+import { ApiResponse, PaginateOptions, RequestConfig } from './types';
+
+/**
+ * @aiDescription Async iterator over paginated list endpoints supporting page/limit, cursor and Link header pagination
+ * @aiPurpose read
+ * @aiModifiable true
+ * @aiRiskLevel low
+ * @aiSecurityCritical false
+ * @aiBusinessCritical false
+ * @aiPerformanceCritical true
+ * @aiDomain api-client
+ * @aiLayer service
+ * @aiCapabilities ['PAGE_PAGINATION', 'CURSOR_PAGINATION', 'LINK_HEADER_PAGINATION', 'ITEM_LIMITS']
+ * @aiDependencies ['types']
+ * @aiBusinessRules ['lazy-page-fetching', 'stop-on-short-or-empty-page', 'respect-max-items']
+ * @aiValidationRules ['positive-page-size', 'next-link-rel-parsing']
+ * @aiTestScenarios ['page-strategy', 'cursor-strategy', 'link-strategy', 'max-items', 'to-array']
+ * @aiErrorPrevention Never fetch a page that will not be consumed, always stop when the server stops advancing
+ */
+export class Paginator<T> implements AsyncIterable<T> {
+  private fetchPage: (config: RequestConfig) => Promise<ApiResponse<unknown>>;
+  private url: string;
+  private options: PaginateOptions<T>;
+
+  constructor(
+    fetchPage: (config: RequestConfig) => Promise<ApiResponse<unknown>>,
+    url: string,
+    options: PaginateOptions<T> = {}
+  ) {
+    this.fetchPage = fetchPage;
+    this.url = url;
+    this.options = options;
+  }
+
+  static parseNextLink(linkHeader: string | undefined): string | null {
+    if (!linkHeader) {
+      return null;
+    }
+
+    for (const part of linkHeader.split(',')) {
+      const link = part.match(/<([^>]+)>\s*;(.*)/);
+      const rel = link?.[2].match(/\brel\s*=\s*"?([^";]+)"?/i);
+      if (link && rel && rel[1].trim().split(/\s+/).includes('next')) {
+        return link[1];
+      }
+    }
+
+    return null;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    const {
+      strategy = 'page',
+      pageSize,
+      maxItems = Infinity,
+      startPage = 1,
+      pageParam = 'page',
+      limitParam = 'limit',
+      cursorParam = 'cursor',
+      getItems = Paginator.defaultGetItems,
+      getNextCursor = Paginator.defaultGetNextCursor,
+      ...requestOptions
+    } = this.options;
+
+    const sizeParams: Record<string, unknown> = pageSize ? { [limitParam]: pageSize } : {};
+    let request: RequestConfig | null = {
+      ...requestOptions,
+      url: this.url,
+      method: 'GET',
+      params: {
+        ...requestOptions.params,
+        ...sizeParams,
+        ...(strategy === 'page' ? { [pageParam]: startPage } : {}),
+      },
+    };
+    let page = startPage;
+    let yielded = 0;
+
+    while (request && yielded < maxItems) {
+      const response = await this.fetchPage(request);
+      const items = getItems(response.data) as T[];
+
+      for (const item of items) {
+        if (yielded >= maxItems) {
+          return;
+        }
+        yield item;
+        yielded++;
+      }
+
+      if (items.length === 0) {
+        return;
+      }
+
+      if (strategy === 'page') {
+        // A short page means the server has nothing further to return
+        if (pageSize && items.length < pageSize) {
+          return;
+        }
+        page++;
+        request = { ...request, params: { ...request.params, [pageParam]: page } };
+      } else if (strategy === 'cursor') {
+        const cursor = getNextCursor(response.data);
+        request = cursor
+          ? { ...request, params: { ...request.params, [cursorParam]: cursor } }
+          : null;
+      } else {
+        const next = Paginator.parseNextLink(Paginator.getHeader(response.headers, 'link'));
+        // The next link already carries the query string for the following page
+        request = next ? { ...request, url: next, params: undefined } : null;
+      }
+    }
+  }
+
+  async toArray(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+
+  private static defaultGetItems(data: unknown): unknown[] {
+    if (Array.isArray(data)) {
+      return data;
+    }
+
+    const body = data as { data?: unknown; items?: unknown } | null;
+    if (Array.isArray(body?.data)) {
+      return body!.data as unknown[];
+    }
+    if (Array.isArray(body?.items)) {
+      return body!.items as unknown[];
+    }
+
+    return [];
+  }
+
+  private static defaultGetNextCursor(data: unknown): string | null | undefined {
+    const body = data as {
+      next_cursor?: string | null;
+      nextCursor?: string | null;
+      meta?: { next_cursor?: string | null };
+    } | null;
+
+    return body?.next_cursor ?? body?.nextCursor ?? body?.meta?.next_cursor;
+  }
+
+  private static getHeader(headers: Record<string, string>, name: string): string | undefined {
+    const entry = Object.entries(headers || {}).find(([header]) => header.toLowerCase() === name);
+    return entry?.[1];
+  }
+}
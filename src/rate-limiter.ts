@@ -0,0 +1,202 @@
+import { RateLimitHeaderNames, RateLimitState } from './types';
+import { TanqoryError } from './errors';
+
+interface RateLimitBucket {
+  limit: number;
+  remaining: number;
+  resetAt?: number;
+  queue: Array<(error?: TanqoryError) => void>;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+const DEFAULT_HEADER_NAMES: RateLimitHeaderNames = {
+  limit: 'X-RateLimit-Limit',
+  remaining: 'X-RateLimit-Remaining',
+  reset: 'X-RateLimit-Reset',
+};
+
+/**
+ * @aiDescription Client-side token bucket fed by server rate-limit headers, queueing requests so they stay within the advertised budget
+ * @aiPurpose process
+ * @aiModifiable true
+ * @aiRiskLevel medium
+ * @aiSecurityCritical false
+ * @aiBusinessCritical true
+ * @aiPerformanceCritical true
+ * @aiDomain api-client
+ * @aiLayer service
+ * @aiCapabilities ['RATE_LIMIT_TRACKING', 'REQUEST_QUEUEING', 'HEADER_PARSING']
+ * @aiDependencies ['types']
+ * @aiBusinessRules ['budget-shared-per-store', 'fifo-queue-order', 'refill-at-reset']
+ * @aiValidationRules ['numeric-header-values', 'reset-as-epoch-or-delta-seconds']
+ * @aiTestScenarios ['header-parsing', 'queue-until-reset', 'unknown-budget-passthrough', 'custom-header-names', 'abort-while-queued', 'abort-on-reset']
+ * @aiErrorPrevention Never block requests before the server has advertised a budget, only run the drain timer while requests are queued, so the process neither exits with requests waiting nor stays alive without them
+ */
+export class RateLimiter {
+  private buckets: Map<string, RateLimitBucket> = new Map();
+  private headerNames: RateLimitHeaderNames;
+
+  constructor(headerNames: Partial<RateLimitHeaderNames> = {}) {
+    this.headerNames = { ...DEFAULT_HEADER_NAMES, ...headerNames };
+  }
+
+  /**
+   * Resolves once a request for `key` may be sent. Requests pass straight
+   * through until the server has advertised a budget for the key.
+   */
+  acquire(key: string, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(TanqoryError.aborted());
+    }
+
+    const bucket = this.buckets.get(key);
+    if (!bucket) {
+      return Promise.resolve();
+    }
+
+    this.refillIfReset(bucket);
+
+    if (bucket.queue.length === 0 && bucket.remaining > 0) {
+      bucket.remaining--;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const index = bucket.queue.indexOf(release);
+        if (index !== -1) {
+          bucket.queue.splice(index, 1);
+        }
+        if (bucket.queue.length === 0 && bucket.timer) {
+          clearTimeout(bucket.timer);
+          bucket.timer = undefined;
+        }
+        reject(TanqoryError.aborted());
+      };
+      const release = (error?: TanqoryError) => {
+        signal?.removeEventListener('abort', onAbort);
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      bucket.queue.push(release);
+      this.scheduleDrain(bucket);
+    });
+  }
+
+  update(key: string, headers: Record<string, string> | undefined): void {
+    if (!headers) {
+      return;
+    }
+
+    const limit = this.readHeader(headers, this.headerNames.limit);
+    const remaining = this.readHeader(headers, this.headerNames.remaining);
+    const reset = this.readHeader(headers, this.headerNames.reset);
+
+    if (remaining === undefined) {
+      return;
+    }
+
+    const bucket = this.buckets.get(key) || { limit: 0, remaining: 0, queue: [] };
+    bucket.limit = limit ?? Math.max(bucket.limit, remaining);
+    bucket.remaining = remaining;
+    if (reset !== undefined) {
+      bucket.resetAt = this.toResetTime(reset);
+    }
+
+    this.buckets.set(key, bucket);
+    this.drain(bucket);
+  }
+
+  getState(key: string): RateLimitState | null {
+    const bucket = this.buckets.get(key);
+    if (!bucket) {
+      return null;
+    }
+
+    return {
+      key,
+      limit: bucket.limit,
+      remaining: bucket.remaining,
+      resetAt: bucket.resetAt,
+      queued: bucket.queue.length,
+    };
+  }
+
+  /**
+   * Forgets every budget. Requests still queued are rejected with ABORTED
+   * rather than sent or left hanging.
+   */
+  reset(): void {
+    this.buckets.forEach((bucket) => {
+      if (bucket.timer) {
+        clearTimeout(bucket.timer);
+      }
+      bucket.queue.splice(0).forEach((release) => release(TanqoryError.aborted()));
+    });
+    this.buckets.clear();
+  }
+
+  private readHeader(headers: Record<string, string>, name: string): number | undefined {
+    const target = name.toLowerCase();
+    const entry = Object.entries(headers).find(([header]) => header.toLowerCase() === target);
+    if (!entry) {
+      return undefined;
+    }
+
+    const value = Number(entry[1]);
+    return Number.isFinite(value) ? value : undefined;
+  }
+
+  /**
+   * Reset headers are either an epoch timestamp in seconds or the number of
+   * seconds until the window resets; anything larger than a year of seconds
+   * is treated as a timestamp.
+   */
+  private toResetTime(reset: number): number {
+    return reset > 31536000 ? reset * 1000 : Date.now() + reset * 1000;
+  }
+
+  private refillIfReset(bucket: RateLimitBucket): void {
+    if (bucket.resetAt !== undefined && Date.now() >= bucket.resetAt) {
+      bucket.remaining = bucket.limit;
+      bucket.resetAt = undefined;
+    }
+  }
+
+  private drain(bucket: RateLimitBucket): void {
+    this.refillIfReset(bucket);
+
+    while (bucket.queue.length > 0 && bucket.remaining > 0) {
+      bucket.remaining--;
+      bucket.queue.shift()!();
+    }
+
+    this.scheduleDrain(bucket);
+  }
+
+  /**
+   * Starts the timer that releases queued requests once budget returns. It is
+   * only pending while requests are queued and keeps the process alive for them.
+   */
+  private scheduleDrain(bucket: RateLimitBucket): void {
+    if (bucket.timer || bucket.queue.length === 0) {
+      return;
+    }
+
+    // Without a reset time we cannot know when budget returns; poll once a second
+    const delay = bucket.resetAt !== undefined ? Math.max(bucket.resetAt - Date.now(), 0) : 1000;
+
+    bucket.timer = setTimeout(() => {
+      bucket.timer = undefined;
+      if (bucket.resetAt === undefined) {
+        bucket.remaining = Math.max(bucket.remaining, 1);
+      }
+      this.drain(bucket);
+    }, delay);
+  }
+}
@@ -0,0 +1,135 @@
+import { ApiResponse, StreamFormat } from './types';
+import { TanqoryError } from './errors';
+
+type StreamChunk = Uint8Array | string;
+
+/**
+ * @aiDescription Async iterator over a streamed response body, yielding NDJSON records or raw chunks without buffering the whole payload
+ * @aiPurpose read
+ * @aiModifiable true
+ * @aiRiskLevel medium
+ * @aiSecurityCritical false
+ * @aiBusinessCritical false
+ * @aiPerformanceCritical true
+ * @aiDomain api-client
+ * @aiLayer service
+ * @aiCapabilities ['NDJSON_PARSING', 'RAW_CHUNK_STREAMING', 'LAZY_CONSUMPTION']
+ * @aiDependencies ['types', 'errors']
+ * @aiBusinessRules ['open-stream-on-first-iteration', 'skip-blank-lines', 'release-stream-on-early-exit']
+ * @aiValidationRules ['one-json-value-per-line', 'utf8-safe-chunk-boundaries']
+ * @aiTestScenarios ['ndjson-records', 'split-lines-across-chunks', 'raw-chunks', 'invalid-line', 'stream-failure']
+ * @aiErrorPrevention Never hold more than one partial line in memory, always surface stream failures as TanqoryError
+ */
+export class ResponseStream<T> implements AsyncIterable<T> {
+  private open: () => Promise<ApiResponse<unknown>>;
+  private format: StreamFormat;
+
+  constructor(open: () => Promise<ApiResponse<unknown>>, format: StreamFormat = 'ndjson') {
+    this.open = open;
+    this.format = format;
+  }
+
+  /**
+   * Reads a whole streamed body, used for error responses whose message would
+   * otherwise be locked inside the stream. JSON bodies are parsed.
+   */
+  static async readAll(body: unknown): Promise<unknown> {
+    const decoder = new TextDecoder();
+    let text = '';
+
+    for await (const chunk of ResponseStream.toChunks(body)) {
+      text += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    }
+    text += decoder.decode();
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    const response = await this.open();
+    const chunks = ResponseStream.toChunks(response.data);
+
+    try {
+      if (this.format === 'raw') {
+        for await (const chunk of chunks) {
+          yield chunk as T;
+        }
+        return;
+      }
+
+      const decoder = new TextDecoder();
+      let buffered = '';
+      let lineNumber = 0;
+
+      for await (const chunk of chunks) {
+        buffered += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+        const lines = buffered.split('\n');
+        // The last piece may be an incomplete line; keep it for the next chunk
+        buffered = lines.pop() as string;
+
+        for (const line of lines) {
+          lineNumber++;
+          if (line.trim()) {
+            yield ResponseStream.parseLine(line, lineNumber) as T;
+          }
+        }
+      }
+
+      buffered += decoder.decode();
+      if (buffered.trim()) {
+        yield ResponseStream.parseLine(buffered, lineNumber + 1) as T;
+      }
+    } catch (error) {
+      throw ResponseStream.toStreamError(error);
+    }
+  }
+
+  async toArray(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+
+  private static toChunks(body: unknown): AsyncIterable<StreamChunk> | StreamChunk[] {
+    if (typeof body === 'string' || body instanceof Uint8Array) {
+      return [body];
+    }
+    if (body && typeof (body as AsyncIterable<StreamChunk>)[Symbol.asyncIterator] === 'function') {
+      return body as AsyncIterable<StreamChunk>;
+    }
+
+    throw new TanqoryError('Response body is not a stream', undefined, 'STREAM_ERROR');
+  }
+
+  private static parseLine(line: string, lineNumber: number): unknown {
+    try {
+      return JSON.parse(line);
+    } catch {
+      throw new TanqoryError(`Invalid NDJSON on line ${lineNumber}`, undefined, 'PARSE_ERROR');
+    }
+  }
+
+  private static toStreamError(error: unknown): TanqoryError {
+    if (error instanceof TanqoryError) {
+      return error;
+    }
+
+    const streamError = error as { name?: string; code?: string; message?: string };
+    if (
+      streamError.code === 'ERR_CANCELED' ||
+      streamError.code === 'ABORT_ERR' ||
+      streamError.name === 'AbortError'
+    ) {
+      return TanqoryError.aborted();
+    }
+
+    return new TanqoryError(streamError.message || 'Stream failed', undefined, 'STREAM_ERROR');
+  }
+}
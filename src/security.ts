@@ -1,10 +1,22 @@
-import { createHmac } from 'crypto';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+  scrypt,
+} from 'crypto';
+import { EncryptedPayload, JwtClaims } from './types';
 
 export class SecurityUtils {
   static generateHmacSignature(data: string, secret: string, algorithm: string = 'sha256'): string {
     return createHmac(algorithm, secret).update(data).digest('hex');
   }
 
+  static hash(data: string, algorithm: string = 'sha256'): string {
+    return createHash(algorithm).update(data).digest('hex');
+  }
+
   static verifyHmacSignature(
     data: string,
     signature: string,
@@ -15,6 +27,66 @@ export class SecurityUtils {
     return this.constantTimeCompare(signature, expectedSignature);
   }
 
+  /**
+   * Encrypts `plaintext` with AES-256-GCM under a 32-byte key, using a random
+   * IV. The IV, authentication tag and ciphertext are base64 encoded.
+   */
+  static encrypt(plaintext: string, key: Buffer): EncryptedPayload {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+  }
+
+  /**
+   * Decrypts a payload from `encrypt`. Throws when the key is wrong or the
+   * payload was modified, since the authentication tag no longer matches.
+   */
+  static decrypt(payload: EncryptedPayload, key: Buffer): string {
+    // A fixed tag length stops a shortened tag from weakening the integrity check
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(payload.iv, 'base64'), {
+      authTagLength: 16,
+    });
+    decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(payload.data, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  /**
+   * Derives a 32-byte AES-256 key from a passphrase with scrypt.
+   */
+  static deriveKey(passphrase: string, salt: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      scrypt(passphrase, salt, 32, (error, key) => (error ? reject(error) : resolve(key)));
+    });
+  }
+
+  /**
+   * Reads the claims of a JWT, or returns null when `token` is not one. The
+   * signature is not verified; that is left to the server receiving the token.
+   */
+  static decodeJwt(token: string): JwtClaims | null {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      return null;
+    }
+
+    try {
+      const claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+      return claims && typeof claims === 'object' && !Array.isArray(claims) ? claims : null;
+    } catch {
+      return null;
+    }
+  }
+
   private static constantTimeCompare(a: string, b: string): boolean {
     if (a.length !== b.length) {
       return false;
@@ -1,7 +1,19 @@
-import { TokenData, TanqoryConfig } from './types';
+import { JwtClaims, TokenData, TanqoryConfig, TokenStore, TokenValidationOptions } from './types';
+import { SecurityUtils } from './security';
+import { TanqoryError } from './errors';
+
+// Tokens this close to expiring (in seconds) are no longer sent by default
+const EXPIRY_BUFFER = 300;
+
+// Largest share of a token's lifetime that counts as due for a refresh, so tokens issued
+// for less than the refresh lead time are not due as soon as they arrive
+const MAX_REFRESH_SHARE = 0.25;
+
+// Default leeway in seconds for clock differences when checking `nbf`
+const DEFAULT_CLOCK_TOLERANCE = 60;
 
 /**
- * @aiDescription Manages JWT/OAuth2 authentication tokens with automatic validation and secure storage
+ * @aiDescription Manages JWT/OAuth2 authentication tokens with automatic validation, JWT claim checks and persistence through a pluggable TokenStore
  * @aiPurpose authenticate
  * @aiModifiable true
  * @aiRiskLevel high
@@ -9,93 +21,158 @@ import { TokenData, TanqoryConfig } from './types';
  * @aiBusinessCritical true
  * @aiDomain auth
  * @aiLayer service
- * @aiCapabilities ['TOKEN_STORAGE', 'TOKEN_VALIDATION', 'TOKEN_REFRESH', 'EXPIRY_CHECK']
- * @aiDependencies ['process.env', 'types']
- * @aiBusinessRules ['token-expiry-buffer', 'secure-storage', 'automatic-cleanup']
- * @aiValidationRules ['token-format-validation', 'expiry-timestamp-check']
- * @aiCurrentGaps ['no-token-encryption', 'basic-storage-options', 'no-token-rotation']
+ * @aiCapabilities ['TOKEN_STORAGE', 'TOKEN_VALIDATION', 'TOKEN_REFRESH', 'EXPIRY_CHECK', 'TOKEN_RELOAD', 'JWT_CLAIMS']
+ * @aiDependencies ['types', 'security-utils', 'errors']
+ * @aiBusinessRules ['token-expiry-buffer', 'refresh-lead-capped-by-lifetime', 'secure-storage', 'automatic-cleanup', 'serialized-store-writes', 'local-changes-win-over-pending-loads']
+ * @aiValidationRules ['token-format-validation', 'expiry-timestamp-check', 'expiry-from-jwt-exp', 'issuer-audience-check', 'not-before-check']
+ * @aiCurrentGaps ['plaintext-tokens-in-memory', 'no-token-rotation']
  * @aiImprovementHints [
  *   'implement-token-encryption-for-memory-storage',
- *   'add-automatic-token-rotation-before-expiry',
- *   'implement-token-validation-with-JWT-decode',
- *   'add-secure-keychain-storage-option',
- *   'implement-token-refresh-queue-for-concurrent-requests'
+ *   'verify-jwt-signatures-against-published-keys',
+ *   'add-secure-keychain-storage-option'
  * ]
- * @aiTestScenarios ['token-set-get', 'expiry-validation', 'storage-modes', 'token-cleanup']
+ * @aiTestScenarios ['token-set-get', 'expiry-validation', 'store-load', 'store-save-order', 'reload-from-store', 'token-cleanup', 'jwt-expiry', 'claim-checks', 'clear-on-rejected-token', 'short-lived-token-refresh']
  * @aiErrorPrevention Never log tokens, always validate expiry before use, clear tokens on security errors
  */
 export class TokenManager {
   private tokenData: TokenData | null = null;
-  private config: TanqoryConfig;
+  private claims: JwtClaims | null = null;
+  private issuedAt = 0;
+  private store: TokenStore;
+  private validation?: TokenValidationOptions;
+  private loaded: Promise<void>;
+  private writes: Promise<void> = Promise.resolve();
+  private version = 0;
 
   constructor(config: TanqoryConfig) {
-    this.config = config;
-    this.loadTokenFromStorage();
-  }
-
-  private loadTokenFromStorage(): void {
-    if (this.config.tokenStorage === 'env') {
-      const accessToken = process.env.TANQORY_ACCESS_TOKEN;
-      const refreshToken = process.env.TANQORY_REFRESH_TOKEN;
-      const expiresAt = process.env.TANQORY_TOKEN_EXPIRES_AT
-        ? parseInt(process.env.TANQORY_TOKEN_EXPIRES_AT)
-        : undefined;
-
-      if (accessToken) {
-        this.tokenData = {
-          accessToken,
-          refreshToken,
-          expiresAt,
-          tokenType: 'Bearer',
-        };
-      }
-    }
+    this.store = config.tokenStore || new MemoryTokenStore();
+    this.validation = config.tokenValidation;
+    this.loaded = this.reload().then(() => undefined);
+    // Callers see a failed load through ready(); it must not surface as an unhandled rejection
+    this.loaded.catch(() => undefined);
   }
 
-  setToken(tokenData: TokenData): void {
-    this.tokenData = tokenData;
+  /**
+   * Resolves once the token saved in the store has been loaded, and rejects
+   * if the store could not be read.
+   */
+  ready(): Promise<void> {
+    return this.loaded;
+  }
 
-    if (this.config.tokenStorage === 'env') {
-      process.env.TANQORY_ACCESS_TOKEN = tokenData.accessToken;
-      if (tokenData.refreshToken) {
-        process.env.TANQORY_REFRESH_TOKEN = tokenData.refreshToken;
-      }
-      if (tokenData.expiresAt) {
-        process.env.TANQORY_TOKEN_EXPIRES_AT = tokenData.expiresAt.toString();
-      }
+  /**
+   * Reads the store again, e.g. after another process sharing it refreshed the
+   * token. Returns true when the stored token replaced the one in memory. A
+   * token set or cleared while the store was being read is kept, and so is
+   * the current token when the stored one fails the claim checks.
+   */
+  async reload(): Promise<boolean> {
+    const version = this.version;
+    // Writes still queued would otherwise be read back as another process's token
+    await this.writes.catch(() => undefined);
+    const stored = await this.store.load();
+
+    if (version !== this.version || stored?.accessToken === this.tokenData?.accessToken) {
+      return false;
+    }
+
+    if (!stored) {
+      this.tokenData = null;
+      this.claims = null;
+      return true;
+    }
+
+    try {
+      this.apply(this.checkClaims(stored));
+    } catch {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Updates the token at once and resolves when the store has saved it.
+   * Writes are applied in call order. A JWT without `expiresAt` expires at its
+   * `exp` claim; one failing the `tokenValidation` checks is rejected with
+   * INVALID_TOKEN and not used, and the previous token is cleared as well.
+   */
+  setToken(tokenData: TokenData): Promise<void> {
+    let checked: [TokenData, JwtClaims | null];
+    try {
+      checked = this.checkClaims(tokenData);
+    } catch (error) {
+      // Callers ignoring the rejection must not keep sending the previous session's token
+      this.clearToken().catch(() => undefined);
+      return Promise.reject(error);
     }
+
+    this.apply(checked);
+    this.version++;
+    return this.enqueueWrite(() => this.store.save(checked[0]));
   }
 
   getToken(): TokenData | null {
     return this.tokenData;
   }
 
-  isTokenValid(): boolean {
+  /**
+   * Returns the decoded claims of the current access token, or null when there
+   * is no token or it is not a JWT.
+   */
+  getClaims(): JwtClaims | null {
+    return this.claims ? { ...this.claims } : null;
+  }
+
+  /**
+   * Checks that the token does not expire within `buffer` seconds, 5 minutes by
+   * default. Pass 0 to check whether it has actually expired.
+   */
+  isTokenValid(buffer: number = EXPIRY_BUFFER): boolean {
     if (!this.tokenData?.accessToken) {
       return false;
     }
 
     if (this.tokenData.expiresAt) {
       const now = Date.now() / 1000;
-      const buffer = 300; // 5 minutes buffer before expiry
       return this.tokenData.expiresAt > now + buffer;
     }
 
     return true;
   }
 
-  clearToken(): void {
-    this.tokenData = null;
+  /**
+   * Whether the token is due for a refresh: it is missing or expires within
+   * `lead` seconds, 5 minutes by default, capped by `capToLifetime`.
+   */
+  needsRefresh(lead: number = EXPIRY_BUFFER): boolean {
+    return !this.isTokenValid(this.capToLifetime(lead));
+  }
 
-    if (this.config.tokenStorage === 'env') {
-      delete process.env.TANQORY_ACCESS_TOKEN;
-      delete process.env.TANQORY_REFRESH_TOKEN;
-      delete process.env.TANQORY_TOKEN_EXPIRES_AT;
+  /**
+   * Caps a refresh lead time in seconds at a quarter of the current token's
+   * lifetime, counted from its `iat` claim or else from when it was set or loaded.
+   */
+  capToLifetime(lead: number): number {
+    const expiresAt = this.tokenData?.expiresAt;
+    if (!expiresAt) {
+      return lead;
     }
+    return Math.min(lead, Math.max(expiresAt - this.issuedAt, 0) * MAX_REFRESH_SHARE);
   }
 
-  getAuthorizationHeader(): string | null {
-    if (!this.isTokenValid()) {
+  clearToken(): Promise<void> {
+    this.tokenData = null;
+    this.claims = null;
+    this.version++;
+    return this.enqueueWrite(() => this.store.clear());
+  }
+
+  /**
+   * Returns the header for a valid token. With `includeExpiring`, a token inside
+   * the expiry buffer is returned too, as long as it has not expired.
+   */
+  getAuthorizationHeader({ includeExpiring = false } = {}): string | null {
+    if (!this.isTokenValid(includeExpiring ? 0 : EXPIRY_BUFFER)) {
       return null;
     }
 
@@ -103,4 +180,91 @@ export class TokenManager {
     const tokenType = token.tokenType || 'Bearer';
     return `${tokenType} ${token.accessToken}`;
   }
+
+  private apply([tokenData, claims]: [TokenData, JwtClaims | null]): void {
+    this.tokenData = tokenData;
+    this.claims = claims;
+    this.issuedAt = typeof claims?.iat === 'number' ? claims.iat : Date.now() / 1000;
+  }
+
+  private checkClaims(tokenData: TokenData): [TokenData, JwtClaims | null] {
+    const claims = SecurityUtils.decodeJwt(tokenData.accessToken);
+    const { issuer, audience, checkNotBefore, clockTolerance } = this.validation || {};
+
+    if (!claims) {
+      if (issuer || audience) {
+        throw TanqoryError.invalidToken(
+          'Access token is not a JWT, so its claims cannot be checked'
+        );
+      }
+      return [tokenData, null];
+    }
+
+    if (issuer && !this.toList(issuer).includes(claims.iss as string)) {
+      throw TanqoryError.invalidToken(`Token issuer ${claims.iss ?? '(none)'} is not accepted`);
+    }
+    if (audience) {
+      const accepted = this.toList(audience);
+      if (!this.toList(claims.aud).some((value) => accepted.includes(value))) {
+        throw TanqoryError.invalidToken('Token audience is not accepted');
+      }
+    }
+    if (checkNotBefore && typeof claims.nbf === 'number') {
+      const now = Date.now() / 1000;
+      if (claims.nbf > now + (clockTolerance ?? DEFAULT_CLOCK_TOLERANCE)) {
+        throw TanqoryError.invalidToken('Token is not valid yet');
+      }
+    }
+
+    if (tokenData.expiresAt === undefined && typeof claims.exp === 'number') {
+      return [{ ...tokenData, expiresAt: claims.exp }, claims];
+    }
+    return [tokenData, claims];
+  }
+
+  private toList(value: string | string[] | undefined): string[] {
+    if (value === undefined) {
+      return [];
+    }
+    return Array.isArray(value) ? value : [value];
+  }
+
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    // A failed write must not block the ones queued after it
+    const result = this.writes.catch(() => undefined).then(write);
+    this.writes = result;
+    return result;
+  }
+}
+
+/**
+ * @aiDescription Default TokenStore keeping the token in process memory only, so it is lost when the process exits
+ * @aiPurpose authenticate
+ * @aiModifiable true
+ * @aiRiskLevel low
+ * @aiSecurityCritical true
+ * @aiBusinessCritical false
+ * @aiDomain auth
+ * @aiLayer service
+ * @aiCapabilities ['TOKEN_STORE_LOAD', 'TOKEN_STORE_SAVE', 'TOKEN_STORE_CLEAR']
+ * @aiDependencies ['types']
+ * @aiBusinessRules ['process-local-storage']
+ * @aiValidationRules ['copy-on-read-and-write']
+ * @aiTestScenarios ['store-round-trip', 'clear']
+ * @aiErrorPrevention Return copies so callers cannot change the stored token in place
+ */
+export class MemoryTokenStore implements TokenStore {
+  private tokenData: TokenData | null = null;
+
+  async load(): Promise<TokenData | null> {
+    return this.tokenData ? { ...this.tokenData } : null;
+  }
+
+  async save(tokenData: TokenData): Promise<void> {
+    this.tokenData = { ...tokenData };
+  }
+
+  async clear(): Promise<void> {
+    this.tokenData = null;
+  }
 }
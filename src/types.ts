@@ -1,3 +1,6 @@
+import { TanqoryError } from './errors';
+import { RateLimiter } from './rate-limiter';
+
 export interface TanqoryConfig {
   baseURL: string;
   storeId?: string;
@@ -5,14 +8,56 @@ export interface TanqoryConfig {
   retries?: number;
   retryDelay?: number;
   apiKey?: string;
-  tokenStorage?: 'memory' | 'env';
+  tokenStore?: TokenStore;
+  tokenValidation?: TokenValidationOptions;
+  clientCredentials?: ClientCredentialsOptions;
   logLevel?: LogLevel;
   enableCaching?: boolean;
   cacheTTL?: number;
+  cacheMaxEntries?: number;
+  cacheMaxBytes?: number;
+  cacheSweepInterval?: number;
+  cacheStore?: CacheStore;
+  invalidateOnMutation?: boolean;
   hmacSecret?: string;
   enableTokenRefresh?: boolean;
+  proactiveTokenRefresh?: boolean;
+  tokenRefreshLeadTime?: number;
+  tokenRefreshJitter?: number;
   autoRetry?: boolean;
   autoRefreshToken?: boolean;
+  enableCircuitBreaker?: boolean;
+  circuitBreakerThreshold?: number;
+  circuitBreakerCooldown?: number;
+  enableRequestDeduplication?: boolean;
+  enableRateLimiter?: boolean;
+  rateLimitHeaders?: Partial<RateLimitHeaderNames>;
+  rateLimiter?: RateLimiter;
+  autoIdempotencyKey?: boolean;
+  retryNonIdempotent?: boolean;
+  batchEndpoint?: string | false;
+  batchMaxSize?: number;
+  batchConcurrency?: number;
+  prefetchConcurrency?: number;
+  cacheWarmList?: PrefetchRequest[];
+  cacheWarmLeadTime?: number;
+}
+
+export interface TokenStore {
+  load(): Promise<TokenData | null>;
+  save(tokenData: TokenData): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface FileTokenStoreOptions {
+  encryptionKey?: Buffer;
+  passphrase?: string;
+}
+
+export interface EncryptedPayload {
+  iv: string;
+  tag: string;
+  data: string;
 }
 
 export interface TokenData {
@@ -22,6 +67,30 @@ export interface TokenData {
   tokenType?: string;
 }
 
+export interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+export interface TokenValidationOptions {
+  issuer?: string | string[];
+  audience?: string | string[];
+  checkNotBefore?: boolean;
+  clockTolerance?: number;
+}
+
+export interface ClientCredentialsOptions {
+  clientId: string;
+  clientSecret: string;
+  scopes?: string[];
+  tokenEndpoint?: string;
+}
+
 export interface TokenSession {
   accessToken: string;
   refreshToken?: string;
@@ -43,6 +112,7 @@ export interface ApiError extends Error {
     data: unknown;
     status: number;
     statusText: string;
+    headers?: Record<string, string>;
   };
 }
 
@@ -55,7 +125,56 @@ export interface RequestConfig {
   timeout?: number;
   skipAuth?: boolean;
   skipCache?: boolean;
+  cacheTags?: string[];
+  cacheScope?: CacheScope;
   retries?: number;
+  signal?: AbortSignal;
+  idempotencyKey?: string;
+  responseType?: 'json' | 'stream';
+}
+
+export type StreamFormat = 'ndjson' | 'raw';
+
+export interface StreamOptions extends Partial<Omit<RequestConfig, 'url' | 'responseType'>> {
+  format?: StreamFormat;
+}
+
+export type BatchResult<T = unknown> = ApiResponse<T> | TanqoryError;
+
+export type PaginationStrategy = 'page' | 'cursor' | 'link';
+
+export interface PaginateOptions<T = unknown>
+  extends Partial<Omit<RequestConfig, 'url' | 'method'>> {
+  strategy?: PaginationStrategy;
+  pageSize?: number;
+  maxItems?: number;
+  startPage?: number;
+  pageParam?: string;
+  limitParam?: string;
+  cursorParam?: string;
+  getItems?: (data: unknown) => T[];
+  getNextCursor?: (data: unknown) => string | null | undefined;
+}
+
+export interface CacheStore {
+  get<T = unknown>(key: string): Promise<CacheEntry<T> | null>;
+  set<T = unknown>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  invalidatePrefix(prefix: string): Promise<void>;
+  invalidateTag(tag: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface PrefetchRequest {
+  url: string;
+  params?: Record<string, unknown>;
+  cacheScope?: CacheScope;
+  cacheTags?: string[];
+}
+
+export interface MemoryCacheOptions {
+  maxEntries?: number;
+  maxBytes?: number;
 }
 
 export interface CacheEntry<T = unknown> {
@@ -63,6 +182,87 @@ export interface CacheEntry<T = unknown> {
   timestamp: number;
   ttl: number;
   etag?: string;
+  maxAge?: number;
+  staleWhileRevalidate?: number;
+  staleIfError?: number;
+  tags?: string[];
+  vary?: string[];
+}
+
+export type CacheScope = 'private' | 'public';
+
+export type CacheEventType = 'hit' | 'miss' | 'stale' | 'set' | 'evict' | 'revalidate';
+
+export type CacheEvictionReason = 'size' | 'expired';
+
+export interface CacheEvent {
+  type: CacheEventType;
+  key: string;
+  reason?: CacheEvictionReason;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  stale: number;
+  evictions: number;
+  revalidations: number;
+  entries: number;
+  bytes: number;
+}
+
+export interface CacheSnapshotEntry<T = unknown> {
+  key: string;
+  entry: CacheEntry<T>;
+}
+
+export interface CacheSnapshot {
+  version: number;
+  createdAt: number;
+  entries: CacheSnapshotEntry[];
+}
+
+export interface CacheDirectives {
+  maxAge?: number;
+  noStore: boolean;
+  noCache: boolean;
+  private: boolean;
+  staleWhileRevalidate?: number;
+  staleIfError?: number;
+}
+
+export interface MiddlewareContext {
+  request: RequestConfig;
+  attempt: number;
+  response?: ApiResponse;
+  error?: TanqoryError;
+}
+
+export type MiddlewareNext = () => Promise<ApiResponse>;
+
+export type Middleware = (context: MiddlewareContext, next: MiddlewareNext) => Promise<ApiResponse>;
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerSnapshot {
+  key: string;
+  state: CircuitState;
+  failures: number;
+  openedAt?: number;
+}
+
+export interface RateLimitHeaderNames {
+  limit: string;
+  remaining: string;
+  reset: string;
+}
+
+export interface RateLimitState {
+  key: string;
+  limit: number;
+  remaining: number;
+  resetAt?: number;
+  queued: number;
 }
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';